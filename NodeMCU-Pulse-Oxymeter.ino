@@ -5,21 +5,72 @@
 #include <ESP8266WiFi.h>
 #include <WiFiManager.h>
 #include <ESP8266WebServer.h>
+#include <WebSocketsServer.h>
 #include <ArduinoJson.h>
+#include <EEPROM.h>
+
+// ── Version — reported by /info so the app can check compatibility ──────────
+#define FIRMWARE_VERSION "1.6.0"
+#define PROTOCOL_VERSION 3     // bump on any breaking change to the HTTP/stream JSON
 
 // ── Sensor config ─────────────────────────────────────────────────────────────
-#define IR_FINGER_THRESHOLD 50000UL
 #define TOTAL_SAMPLES 5
-const int sampleCounts[TOTAL_SAMPLES] = { 50, 60, 70, 80, 90 };
 #define MAX_BUFFER 90
-
-// ── Display refresh interval (ms) — don't redraw OLED more than this ─────────
-#define DISPLAY_INTERVAL 500
+#define MIN_SAMPLE_COUNT 30
+
+// ── Runtime config — editable over /config, persisted in EEPROM ──────────────
+#define CONFIG_MAGIC 0x50554C31UL   // "PUL1" — bump when the struct changes
+
+struct DeviceConfig {
+  uint32_t magic;
+  uint32_t irFingerThreshold;               // IR level that counts as a finger
+  uint16_t sampleCounts[TOTAL_SAMPLES];     // samples per window, ≤ MAX_BUFFER
+  uint16_t displayInterval;                 // ms — don't redraw OLED more than this
+};
+
+const DeviceConfig DEFAULT_CONFIG = {
+  CONFIG_MAGIC,
+  50000UL,
+  { 50, 60, 70, 80, 90 },
+  500,
+};
+
+DeviceConfig config = DEFAULT_CONFIG;
+
+// ── Pairing — control and data endpoints need a token issued by /pair ────────
+#define PAIRING_MAGIC     0x50414931UL   // "PAI1" — bump when the struct changes
+#define MAX_PAIRED        4              // once full, the oldest token is replaced
+#define TOKEN_LENGTH      32             // hex chars
+#define PAIRING_WINDOW_MS 120000UL       // how long the PIN stays on screen
+#define MAX_PIN_ATTEMPTS  5              // wrong PINs, across windows, before a lockout
+#define PAIRING_LOCKOUT_MS 30000UL       // first lockout; doubles with each one after
+#define MAX_LOCKOUT_SHIFT 5              // ...up to 32x, about 16 minutes
+
+struct PairingStore {
+  uint32_t magic;
+  uint8_t  next;                                  // slot the next token goes into
+  char     tokens[MAX_PAIRED][TOKEN_LENGTH + 1];  // "" marks an empty slot
+};
+
+// Stored right after the config in EEPROM
+#define PAIRING_ADDR sizeof(DeviceConfig)
+#define EEPROM_SIZE  (sizeof(DeviceConfig) + sizeof(PairingStore))
+
+PairingStore pairing;
+char pairingPin[7]         = "";   // non-empty while pairing is open
+unsigned long pairingUntil = 0;
+// Wrong PINs since the last successful pairing. Not reset by a new window, so
+// reopening pairing doesn't buy more guesses; every MAX_PIN_ATTEMPTS of them
+// locks pairing for longer. Cleared by a successful pairing or a reboot.
+int  pinFailures           = 0;
+int  lockouts              = 0;
+unsigned long lockedUntil  = 0;
 
 // ── Objects ───────────────────────────────────────────────────────────────────
 U8G2_SSD1306_128X64_NONAME_1_HW_I2C u8g2(U8G2_R0, U8X8_PIN_NONE, D1, D2);
 MAX30105 sensor;
 ESP8266WebServer server(80);
+WebSocketsServer webSocket(81);   // live stream — always HTTP port + 1
 
 // ── Sensor buffers ────────────────────────────────────────────────────────────
 uint32_t irBuffer[MAX_BUFFER];
@@ -32,6 +83,7 @@ int8_t  hrValid   = 0;
 
 float hrReadings[TOTAL_SAMPLES];
 float spo2Readings[TOTAL_SAMPLES];
+float perfusion[TOTAL_SAMPLES];   // IR AC/DC per window, % — signal strength
 int   validHRCount   = 0;
 int   validSpO2Count = 0;
 
@@ -41,18 +93,34 @@ float avgSpO2 = 0;
 bool running         = false;
 bool hadFinger       = false;
 bool cancelRequested = false;
+bool fingerOn        = false;   // last IR check, reported in /data
+int  currentSample   = 0;       // 1-based window being sampled, 0 before sampling
+
+// Why the last measurement ended: none | complete | cancelled | fingerLifted
+char endReason[16]   = "none";
 
 char statusMsg[32]   = "Ready";
 char patientName[32] = "";
 
+// Issued by /start and echoed in /data so each phone can tell its own
+// measurement from someone else's. Kept until the next /start.
+char sessionId[9]    = "";
+char sessionName[32] = "";      // patient the session was started for
+
 // ── Display throttle ──────────────────────────────────────────────────────────
 unsigned long lastDisplayMs = 0;
 
-// ── Yield helper: call handleClient repeatedly for `ms` milliseconds ─────────
+// ── Service HTTP and the live stream in one go ───────────────────────────────
+void serviceClients() {
+  server.handleClient();
+  webSocket.loop();
+}
+
+// ── Yield helper: call serviceClients repeatedly for `ms` milliseconds ───────
 void yieldFor(unsigned long ms) {
   unsigned long start = millis();
   while (millis() - start < ms) {
-    server.handleClient();
+    serviceClients();
     yield();               // feeds ESP8266 watchdog
     delay(1);
   }
@@ -61,7 +129,7 @@ void yieldFor(unsigned long ms) {
 // ── Throttled display: only redraws if enough time has passed ─────────────────
 bool shouldRedisplay() {
   unsigned long now = millis();
-  if (now - lastDisplayMs >= DISPLAY_INTERVAL) {
+  if (now - lastDisplayMs >= config.displayInterval) {
     lastDisplayMs = now;
     return true;
   }
@@ -75,7 +143,7 @@ bool shouldRedisplay() {
 void addCORS() {
   server.sendHeader("Access-Control-Allow-Origin",  "*");
   server.sendHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  server.sendHeader("Access-Control-Allow-Headers", "Content-Type");
+  server.sendHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
 }
 
 void handleOptions() {
@@ -83,50 +151,192 @@ void handleOptions() {
   server.send(204);
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+//  PAIRING  (POST /pair/request, POST /pair)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+void loadPairing() {
+  EEPROM.get(PAIRING_ADDR, pairing);
+  if (pairing.magic != PAIRING_MAGIC) {
+    Serial.println("Pairing: no phones paired yet");
+    memset(&pairing, 0, sizeof(pairing));
+    pairing.magic = PAIRING_MAGIC;
+  }
+}
+
+void savePairing() {
+  EEPROM.put(PAIRING_ADDR, pairing);
+  EEPROM.commit();
+}
+
+bool pairingOpen() {
+  return pairingPin[0] != '\0' && (long)(pairingUntil - millis()) > 0;
+}
+
+void closePairing() {
+  pairingPin[0] = '\0';
+}
+
+bool pairingLocked() {
+  return lockouts > 0 && (long)(lockedUntil - millis()) > 0;
+}
+
+void lockPairing() {
+  closePairing();
+  lockedUntil = millis() + (PAIRING_LOCKOUT_MS << min(lockouts, MAX_LOCKOUT_SHIFT));
+  lockouts++;
+  Serial.println("Pairing locked after too many wrong PINs");
+}
+
+bool tokenValid(const String &token) {
+  if (token.length() != TOKEN_LENGTH) return false;
+  for (int i = 0; i < MAX_PAIRED; i++) {
+    if (strcmp(pairing.tokens[i], token.c_str()) == 0) return true;
+  }
+  return false;
+}
+
+// Expects "Authorization: Bearer <token>" — answers 401 itself when it's missing or unknown
+bool requireAuth() {
+  String header = server.header("Authorization");
+  if (header.startsWith("Bearer ") && tokenValid(header.substring(7))) return true;
+  server.send(401, "application/json", "{\"error\":\"unauthorized\"}");
+  return false;
+}
+
+// Opens a pairing window and shows a 6-digit PIN on the OLED.
+// Only someone who can see the device can read it, which is the point.
+void handlePairRequest() {
+  addCORS();
+  if (running) {
+    server.send(409, "application/json", "{\"error\":\"busy\"}");
+    return;
+  }
+  if (pairingLocked()) {
+    server.send(429, "application/json",
+                "{\"error\":\"locked\",\"retryInMs\":" + String(lockedUntil - millis()) + "}");
+    return;
+  }
+  snprintf(pairingPin, sizeof(pairingPin), "%06lu", (unsigned long)(ESP.random() % 1000000UL));
+  pairingUntil = millis() + PAIRING_WINDOW_MS;
+  displayPairing();
+  Serial.println("Pairing open");
+  server.send(200, "application/json", "{\"expiresInMs\":" + String(PAIRING_WINDOW_MS) + "}");
+}
+
+// {"pin":"123456"} → {"token":"<32 hex chars>"}
+void handlePair() {
+  addCORS();
+  if (!pairingOpen()) {
+    closePairing();
+    server.send(410, "application/json", "{\"error\":\"pairing closed\"}");
+    return;
+  }
+
+  StaticJsonDocument<64> doc;
+  if (!server.hasArg("plain") || deserializeJson(doc, server.arg("plain"))) {
+    server.send(400, "application/json", "{\"error\":\"invalid JSON\"}");
+    return;
+  }
+  const char *pin = doc["pin"] | "";
+  if (strcmp(pin, pairingPin) != 0) {
+    // Too many guesses closes the window, and no new PIN is shown until the lockout ends
+    if (++pinFailures % MAX_PIN_ATTEMPTS == 0) lockPairing();
+    server.send(403, "application/json", "{\"error\":\"wrong pin\"}");
+    return;
+  }
+
+  char *slot = pairing.tokens[pairing.next];
+  for (int i = 0; i < TOKEN_LENGTH; i += 8) {
+    snprintf(slot + i, 9, "%08lx", (unsigned long)ESP.random());
+  }
+  pairing.next = (pairing.next + 1) % MAX_PAIRED;
+  savePairing();
+  closePairing();
+  pinFailures = 0;
+  lockouts    = 0;
+  displayIdle();
+  Serial.println("Paired a new phone");
+  server.send(200, "application/json", "{\"token\":\"" + String(slot) + "\"}");
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 //  WEB SERVER HANDLERS
 // ═══════════════════════════════════════════════════════════════════════════════
 
 void handleStart() {
   addCORS();
-  if (!running) {
-    patientName[0] = '\0';
-    if (server.hasArg("plain")) {
-      StaticJsonDocument<128> doc;
-      DeserializationError err = deserializeJson(doc, server.arg("plain"));
-      if (!err && doc.containsKey("name")) {
-        strlcpy(patientName, doc["name"] | "", sizeof(patientName));
-      }
+  if (!requireAuth()) return;
+  // Another phone's measurement is in progress — say whose instead of ignoring the request
+  if (running) {
+    String json = "{\"error\":\"busy\",\"sessionId\":\"" + String(sessionId) + "\",";
+    json += "\"patientName\":\"" + jsonEscape(sessionName) + "\"}";
+    server.send(409, "application/json", json);
+    return;
+  }
+  patientName[0] = '\0';
+  if (server.hasArg("plain")) {
+    StaticJsonDocument<128> doc;
+    DeserializationError err = deserializeJson(doc, server.arg("plain"));
+    if (!err && doc.containsKey("name")) {
+      strlcpy(patientName, doc["name"] | "", sizeof(patientName));
     }
-
-    running         = true;
-    hadFinger       = false;
-    cancelRequested = false;
-    validHRCount    = 0;
-    validSpO2Count  = 0;
-    avgHR           = 0;
-    avgSpO2         = 0;
-    memset(hrReadings,   0, sizeof(hrReadings));
-    memset(spo2Readings, 0, sizeof(spo2Readings));
-    snprintf(statusMsg, sizeof(statusMsg), "Starting...");
-
-    Serial.print("Start requested");
-    if (strlen(patientName) > 0) { Serial.print(" for: "); Serial.println(patientName); }
-    else Serial.println();
   }
-  server.send(200, "application/json", "{\"ok\":true}");
+
+  running         = true;
+  hadFinger       = false;
+  cancelRequested = false;
+  validHRCount    = 0;
+  validSpO2Count  = 0;
+  avgHR           = 0;
+  avgSpO2         = 0;
+  currentSample   = 0;
+  strlcpy(endReason, "none", sizeof(endReason));
+  snprintf(sessionId, sizeof(sessionId), "%08lx", (unsigned long)ESP.random());
+  strlcpy(sessionName, patientName, sizeof(sessionName));
+  memset(hrReadings,   0, sizeof(hrReadings));
+  memset(spo2Readings, 0, sizeof(spo2Readings));
+  memset(perfusion,    0, sizeof(perfusion));
+  snprintf(statusMsg, sizeof(statusMsg), "Starting...");
+  broadcastStatus();
+
+  Serial.print("Start requested");
+  if (strlen(patientName) > 0) { Serial.print(" for: "); Serial.println(patientName); }
+  else Serial.println();
+  server.send(200, "application/json", "{\"ok\":true,\"sessionId\":\"" + String(sessionId) + "\"}");
 }
 
+// {"sessionId":"..."} is optional; when given it must be the running session,
+// so one phone can't cancel a measurement another phone started
 void handleCancel() {
   addCORS();
+  if (!requireAuth()) return;
+  if (server.hasArg("plain")) {
+    StaticJsonDocument<64> doc;
+    if (!deserializeJson(doc, server.arg("plain")) && doc.containsKey("sessionId")) {
+      const char *id = doc["sessionId"] | "";
+      if (running && strcmp(id, sessionId) != 0) {
+        server.send(409, "application/json", "{\"error\":\"busy\",\"patientName\":\"" + jsonEscape(sessionName) + "\"}");
+        return;
+      }
+    }
+  }
   cancelRequested = true;
   Serial.println("Cancel requested");
   server.send(200, "application/json", "{\"ok\":true}");
 }
 
-void handleJSON() {
-  addCORS();
+// Patient names come from the app — keep quotes and backslashes from breaking the JSON
+String jsonEscape(const char *text) {
+  String out;
+  for (const char *c = text; *c; c++) {
+    if (*c == '"' || *c == '\\') out += '\\';
+    if ((uint8_t)*c >= 0x20) out += *c;
+  }
+  return out;
+}
 
+String buildDataJSON() {
   String status;
   if (!running && avgHR == 0 && avgSpO2 == 0) {
     status = "idle";
@@ -145,12 +355,194 @@ void handleJSON() {
   json += "\"spo2Valid\":"    + String(validSpO2Count)   + ",";
   json += "\"totalSamples\":" + String(TOTAL_SAMPLES)    + ",";
   json += "\"running\":"      + String(running ? "true" : "false") + ",";
+  json += "\"sampleIndex\":"  + String(currentSample)    + ",";
+  json += "\"fingerPresent\":" + String(fingerOn ? "true" : "false") + ",";
+  json += "\"endReason\":\""  + String(endReason) + "\",";
+  json += "\"sessionId\":\""  + String(sessionId) + "\",";
+  json += "\"patientName\":\"" + jsonEscape(sessionName) + "\",";
+
+  // Per-window results — 0 marks a window the algorithm rejected
+  json += "\"hrReadings\":[";
+  for (int i = 0; i < TOTAL_SAMPLES; i++) {
+    if (i > 0) json += ",";
+    json += String((int)hrReadings[i]);
+  }
+  json += "],\"spo2Readings\":[";
+  for (int i = 0; i < TOTAL_SAMPLES; i++) {
+    if (i > 0) json += ",";
+    json += String((int)spo2Readings[i]);
+  }
+  json += "],\"perfusion\":[";
+  for (int i = 0; i < TOTAL_SAMPLES; i++) {
+    if (i > 0) json += ",";
+    json += String(perfusion[i], 2);
+  }
+  json += "],";
+
   json += "\"status\":\""     + status + "\"";
   json += "}";
+  return json;
+}
 
+void handleJSON() {
+  addCORS();
+  if (!requireAuth()) return;
+  server.send(200, "application/json", buildDataJSON());
+}
+
+// {"firmwareVersion":"1.6.0","protocolVersion":3,"features":[...],"deviceId":"pulseox-a1b2c3"}
+void handleInfo() {
+  addCORS();
+  String json = "{";
+  json += "\"firmwareVersion\":\"" + String(FIRMWARE_VERSION) + "\",";
+  json += "\"protocolVersion\":"   + String(PROTOCOL_VERSION) + ",";
+  json += "\"features\":[\"stream\",\"samples\",\"progress\",\"config\",\"pairing\",\"sessions\",\"perfusion\"],";
+  json += "\"deviceId\":\"pulseox-" + String(ESP.getChipId(), HEX) + "\"";
+  json += "}";
   server.send(200, "application/json", json);
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+//  DEVICE CONFIG  (GET/POST /config, POST /config/reset)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+void loadConfig() {
+  EEPROM.begin(EEPROM_SIZE);
+  EEPROM.get(0, config);
+  if (config.magic != CONFIG_MAGIC) {
+    Serial.println("Config: none stored, using defaults");
+    config = DEFAULT_CONFIG;
+  }
+}
+
+void saveConfig() {
+  EEPROM.put(0, config);
+  EEPROM.commit();
+}
+
+String buildConfigJSON() {
+  String json = "{";
+  json += "\"irFingerThreshold\":" + String(config.irFingerThreshold) + ",";
+  json += "\"sampleCounts\":[";
+  for (int i = 0; i < TOTAL_SAMPLES; i++) {
+    if (i > 0) json += ",";
+    json += String(config.sampleCounts[i]);
+  }
+  json += "],\"displayIntervalMs\":" + String(config.displayInterval);
+  json += "}";
+  return json;
+}
+
+void handleGetConfig() {
+  addCORS();
+  if (!requireAuth()) return;
+  server.send(200, "application/json", buildConfigJSON());
+}
+
+// Partial updates are fine — only the keys present are changed.
+// Same limits as DEVICE_CONFIG_LIMITS in the app's esp.ts.
+void handleSetConfig() {
+  addCORS();
+  if (!requireAuth()) return;
+  if (running) {
+    server.send(409, "application/json", "{\"error\":\"busy\"}");
+    return;
+  }
+
+  StaticJsonDocument<256> doc;
+  if (!server.hasArg("plain") || deserializeJson(doc, server.arg("plain"))) {
+    server.send(400, "application/json", "{\"error\":\"invalid JSON\"}");
+    return;
+  }
+
+  DeviceConfig next = config;
+  if (doc.containsKey("irFingerThreshold")) {
+    long v = doc["irFingerThreshold"] | -1L;
+    if (v < 5000 || v > 250000) {
+      server.send(400, "application/json", "{\"error\":\"irFingerThreshold\"}");
+      return;
+    }
+    next.irFingerThreshold = v;
+  }
+  if (doc.containsKey("sampleCounts")) {
+    JsonArray counts = doc["sampleCounts"];
+    if (counts.isNull() || counts.size() != TOTAL_SAMPLES) {
+      server.send(400, "application/json", "{\"error\":\"sampleCounts\"}");
+      return;
+    }
+    for (int i = 0; i < TOTAL_SAMPLES; i++) {
+      int v = counts[i] | -1;
+      if (v < MIN_SAMPLE_COUNT || v > MAX_BUFFER) {
+        server.send(400, "application/json", "{\"error\":\"sampleCounts\"}");
+        return;
+      }
+      next.sampleCounts[i] = v;
+    }
+  }
+  if (doc.containsKey("displayIntervalMs")) {
+    int v = doc["displayIntervalMs"] | -1;
+    if (v < 100 || v > 5000) {
+      server.send(400, "application/json", "{\"error\":\"displayIntervalMs\"}");
+      return;
+    }
+    next.displayInterval = v;
+  }
+
+  config = next;
+  saveConfig();
+  Serial.println("Config updated: " + buildConfigJSON());
+  server.send(200, "application/json", buildConfigJSON());
+}
+
+void handleResetConfig() {
+  addCORS();
+  if (!requireAuth()) return;
+  if (running) {
+    server.send(409, "application/json", "{\"error\":\"busy\"}");
+    return;
+  }
+  config = DEFAULT_CONFIG;
+  saveConfig();
+  Serial.println("Config reset to defaults");
+  server.send(200, "application/json", buildConfigJSON());
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+//  LIVE STREAM  (WebSocket, port 81)
+// ═══════════════════════════════════════════════════════════════════════════════
+
+// {"type":"status","data":{...same as /data...}} — on connect and state changes
+void broadcastStatus() {
+  String msg = "{\"type\":\"status\",\"data\":" + buildDataJSON() + "}";
+  webSocket.broadcastTXT(msg);
+}
+
+// {"type":"sample","index":N,"total":M,"heartRate":..,"spo2":..} — after each window
+void broadcastSample(int idx) {
+  String msg = "{\"type\":\"sample\"";
+  msg += ",\"index\":"     + String(idx + 1);
+  msg += ",\"total\":"     + String(TOTAL_SAMPLES);
+  msg += ",\"heartRate\":" + String((int)hrReadings[idx]);
+  msg += ",\"spo2\":"      + String((int)spo2Readings[idx]);
+  msg += "}";
+  webSocket.broadcastTXT(msg);
+}
+
+// Clients connect to ws://<ip>:81/?token=<token>; anyone else is dropped straight
+// away so broadcasts only ever reach paired phones
+void onWebSocketEvent(uint8_t num, WStype_t type, uint8_t *payload, size_t length) {
+  if (type == WStype_CONNECTED) {
+    String path = String((char *)payload);
+    int at = path.indexOf("token=");
+    if (at < 0 || !tokenValid(path.substring(at + 6, at + 6 + TOKEN_LENGTH))) {
+      webSocket.disconnect(num);
+      return;
+    }
+    String msg = "{\"type\":\"status\",\"data\":" + buildDataJSON() + "}";
+    webSocket.sendTXT(num, msg);
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 //  OLED HELPERS  (unchanged visually)
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -175,6 +567,18 @@ void displayIdle() {
   } while (u8g2.nextPage());
 }
 
+void displayPairing() {
+  snprintf(statusMsg, sizeof(statusMsg), "Pairing");
+  u8g2.firstPage();
+  do {
+    u8g2.setFont(u8g2_font_ncenB08_tr);
+    u8g2.drawStr(0, 12, "Pair with app - PIN:");
+    u8g2.setFont(u8g2_font_ncenB18_tr);
+    u8g2.drawStr(10, 42, pairingPin);
+    drawStatusBar();
+  } while (u8g2.nextPage());
+}
+
 void displayGreeting() {
   snprintf(statusMsg, sizeof(statusMsg), "Ready");
   u8g2.firstPage();
@@ -279,18 +683,28 @@ void displayResults() {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 bool fingerPresent() {
-  return sensor.getIR() > IR_FINGER_THRESHOLD;
+  bool on = sensor.getIR() > config.irFingerThreshold;
+  if (on != fingerOn) {
+    fingerOn = on;
+    if (running) broadcastStatus();   // app shows "finger removed" straight away
+  }
+  return on;
 }
 
-void resetMeasurement() {
+// reason: "cancelled" (app asked) or "fingerLifted" (lost contact mid-sample)
+void resetMeasurement(const char *reason) {
   running         = false;
   hadFinger       = false;
   cancelRequested = false;
   validHRCount    = 0;
   validSpO2Count  = 0;
+  currentSample   = 0;
   patientName[0]  = '\0';
-  snprintf(statusMsg, sizeof(statusMsg), "Cancelled");
-  Serial.println("Measurement cancelled");
+  strlcpy(endReason, reason, sizeof(endReason));
+  bool lifted = strcmp(reason, "fingerLifted") == 0;
+  snprintf(statusMsg, sizeof(statusMsg), lifted ? "Finger lifted" : "Cancelled");
+  Serial.println(lifted ? "Measurement aborted - finger lifted" : "Measurement cancelled");
+  broadcastStatus();
 }
 
 bool interruptibleCountdown(int seconds) {
@@ -310,7 +724,7 @@ bool interruptibleCountdown(int seconds) {
     // Use yieldFor instead of delay — keeps server responsive during countdown
     unsigned long t = millis();
     while (millis() - t < 1000) {
-      server.handleClient();
+      serviceClients();
       yield();
       if (cancelRequested) return false;
       delay(1);
@@ -320,15 +734,15 @@ bool interruptibleCountdown(int seconds) {
 }
 
 bool takeSingleReading(int idx) {
-  int n = sampleCounts[idx];
+  int n = config.sampleCounts[idx];
 
   for (int i = 0; i < n; i++) {
-    server.handleClient();
+    serviceClients();
     yield();
     if (cancelRequested || !fingerPresent()) return false;
     while (!sensor.available()) {
       sensor.check();
-      server.handleClient();
+      serviceClients();
       yield();
       if (cancelRequested) return false;
     }
@@ -343,8 +757,21 @@ bool takeSingleReading(int idx) {
     &heartRate, &hrValid
   );
 
-  Serial.printf("[%d] HR=%d(v=%d) SpO2=%d(v=%d)\n",
-                idx + 1, heartRate, hrValid, spo2, spo2Valid);
+  // Perfusion index: pulse swing over the mean IR level. Includes any slow
+  // drift across the window, so it reads a little high — fine for telling a
+  // weak signal from a good one.
+  uint32_t irMin = irBuffer[0], irMax = irBuffer[0];
+  uint64_t irSum = 0;
+  for (int i = 0; i < n; i++) {
+    if (irBuffer[i] < irMin) irMin = irBuffer[i];
+    if (irBuffer[i] > irMax) irMax = irBuffer[i];
+    irSum += irBuffer[i];
+  }
+  float irMean = (float)irSum / n;
+  perfusion[idx] = irMean > 0 ? min(100.0f, (irMax - irMin) * 100.0f / irMean) : 0;
+
+  Serial.printf("[%d] HR=%d(v=%d) SpO2=%d(v=%d) PI=%.2f%%\n",
+                idx + 1, heartRate, hrValid, spo2, spo2Valid, perfusion[idx]);
 
   if (hrValid && heartRate >= 40 && heartRate <= 220) {
     hrReadings[idx] = heartRate;
@@ -381,6 +808,8 @@ void calculateAverages() {
 
 void setup() {
   Serial.begin(115200);
+  loadConfig();
+  loadPairing();
 
   Wire.begin(D2, D1);
   u8g2.begin();
@@ -411,9 +840,24 @@ void setup() {
   server.on("/start",  HTTP_POST,    handleStart);
   server.on("/cancel", HTTP_POST,    handleCancel);
   server.on("/data",   HTTP_GET,     handleJSON);
+  server.on("/info",   HTTP_GET,     handleInfo);
+  server.on("/config", HTTP_GET,     handleGetConfig);
+  server.on("/config", HTTP_POST,    handleSetConfig);
+  server.on("/config/reset", HTTP_POST, handleResetConfig);
+  server.on("/pair/request", HTTP_POST, handlePairRequest);
+  server.on("/pair",   HTTP_POST,    handlePair);
   server.on("/start",  HTTP_OPTIONS, handleOptions);
   server.on("/cancel", HTTP_OPTIONS, handleOptions);
   server.on("/data",   HTTP_OPTIONS, handleOptions);
+  server.on("/info",   HTTP_OPTIONS, handleOptions);
+  server.on("/config", HTTP_OPTIONS, handleOptions);
+  server.on("/config/reset", HTTP_OPTIONS, handleOptions);
+  server.on("/pair/request", HTTP_OPTIONS, handleOptions);
+  server.on("/pair",   HTTP_OPTIONS, handleOptions);
+
+  // ESP8266WebServer drops request headers unless asked to keep them
+  const char *headerKeys[] = { "Authorization" };
+  server.collectHeaders(headerKeys, 1);
 
   // Catch-all OPTIONS for any missed preflight
   server.onNotFound([]() {
@@ -426,6 +870,8 @@ void setup() {
   });
 
   server.begin();
+  webSocket.begin();
+  webSocket.onEvent(onWebSocketEvent);
 
   snprintf(statusMsg, sizeof(statusMsg), "Init sensor...");
   u8g2.firstPage();
@@ -445,7 +891,7 @@ void setup() {
       u8g2.drawStr(0, 34, "Check wiring!");
       drawStatusBar();
     } while (u8g2.nextPage());
-    while (1) { server.handleClient(); yield(); delay(10); }
+    while (1) { serviceClients(); yield(); delay(10); }
   }
 
   sensor.setup(60, 2, 2, 400, 411, 4096);
@@ -459,17 +905,20 @@ void setup() {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 void loop() {
-  server.handleClient();
+  serviceClients();
   yield();
 
   if (!running) {
-    if (shouldRedisplay()) displayIdle();   // redraw at most every 500ms
+    if (shouldRedisplay()) {                // redraw at most every 500ms
+      if (pairingOpen()) displayPairing();
+      else               displayIdle();
+    }
     delay(10);                              // was 100 — yield CPU sooner
     return;
   }
 
   if (cancelRequested) {
-    resetMeasurement();
+    resetMeasurement("cancelled");
     displayIdle();
     return;
   }
@@ -477,7 +926,7 @@ void loop() {
   if (!fingerPresent()) {
     hadFinger = false;
     if (shouldRedisplay()) displayNoFinger();
-    server.handleClient();
+    serviceClients();
     delay(10);                              // was 200
     return;
   }
@@ -487,34 +936,39 @@ void loop() {
     displayGreeting();
     yieldFor(800);                          // was delay(800) — server still runs
     if (!interruptibleCountdown(3)) {
-      resetMeasurement();
+      resetMeasurement("cancelled");
       displayIdle();
       return;
     }
   }
 
   for (int i = 0; i < TOTAL_SAMPLES; i++) {
+    currentSample = i + 1;
+    broadcastStatus();
     displaySampling(i + 1, TOTAL_SAMPLES);
-    server.handleClient();
+    serviceClients();
 
     if (!takeSingleReading(i)) {
-      resetMeasurement();
+      resetMeasurement(cancelRequested ? "cancelled" : "fingerLifted");
       displayIdle();
       return;
     }
+    broadcastSample(i);
 
-    server.handleClient();
+    serviceClients();
     yieldFor(300);                          // was delay(300)
   }
 
   calculateAverages();
   running = false;
+  strlcpy(endReason, "complete", sizeof(endReason));
+  broadcastStatus();
   displayResults();
   Serial.println("Measurement complete");
 
   unsigned long showUntil = millis() + 10000;
   while (millis() < showUntil) {
-    server.handleClient();
+    serviceClients();
     yield();
     delay(10);                              // was 50
   }
@@ -0,0 +1,125 @@
+import {
+  assess,
+  DEFAULT_RANGES,
+  HEART_RATE_BANDS,
+  heartRateBandFor,
+  HeartRateBand,
+  presetRanges,
+  rangesFor,
+  Severity,
+  TargetRanges,
+} from '@/app/assessment';
+
+// Inside the adult and post-op SpO₂ targets, so only the heart rate grades
+const SPO2 = 96;
+
+const band = (label: string) => HEART_RATE_BANDS.find((b) => b.label === label) as HeartRateBand;
+
+// ── Age bands ─────────────────────────────────────────────────────────────────
+
+describe('heartRateBandFor', () => {
+  const cases: [number, string | null][] = [
+    [0, 'infant'],
+    [0.99, 'infant'],
+    [1, 'toddler'],
+    [2.99, 'toddler'],
+    [3, 'preschool child'],
+    [5.99, 'preschool child'],
+    [6, 'school-age child'],
+    [11.99, 'school-age child'],
+    [12, 'teenager'],
+    [17.99, 'teenager'],
+    [18, null],
+    [64, null],
+    [65, 'older adult'],
+  ];
+
+  it.each(cases)('age %p → %p', (age, label) => {
+    expect(heartRateBandFor(age)?.label ?? null).toBe(label);
+  });
+
+  it.each([null, undefined, -1, NaN])('has no band for an unknown age (%p)', (age) => {
+    expect(heartRateBandFor(age)).toBeNull();
+  });
+
+  it('has bands that follow on from each other without overlapping', () => {
+    const children = HEART_RATE_BANDS.filter((b) => b.maxAge !== Infinity);
+    children.slice(1).forEach((b, i) => expect(b.minAge).toBe(children[i].maxAge));
+  });
+
+  it('keeps every band in critical low ≤ target low ≤ target high ≤ critical high order', () => {
+    for (const b of HEART_RATE_BANDS) {
+      expect(b.hrCriticalLow).toBeLessThanOrEqual(b.hrMin);
+      expect(b.hrMin).toBeLessThanOrEqual(b.hrMax);
+      expect(b.hrMax).toBeLessThanOrEqual(b.hrCriticalHigh);
+    }
+  });
+});
+
+// ── assess() at each band's edges ─────────────────────────────────────────────
+
+describe('assess at the band edges', () => {
+  // A representative age for each band
+  const ages: [string, number][] = [
+    ['infant', 0.5],
+    ['toddler', 2],
+    ['preschool child', 4],
+    ['school-age child', 8],
+    ['teenager', 15],
+    ['older adult', 70],
+  ];
+
+  const edges = (b: HeartRateBand): [string, number, Severity][] => [
+    ['at hrMin', b.hrMin, 'normal'],
+    ['just below hrMin', b.hrMin - 1, 'caution'],
+    ['at hrMax', b.hrMax, 'normal'],
+    ['just above hrMax', b.hrMax + 1, 'caution'],
+    ['at hrCriticalLow', b.hrCriticalLow, 'caution'],
+    ['just below hrCriticalLow', b.hrCriticalLow - 1, 'critical'],
+    ['at hrCriticalHigh', b.hrCriticalHigh, 'caution'],
+    ['just above hrCriticalHigh', b.hrCriticalHigh + 1, 'critical'],
+  ];
+
+  const cases = ages.flatMap(([label, age]) =>
+    edges(band(label)).map(([edge, hr, severity]) => [label, edge, age, hr, severity] as const)
+  );
+
+  it.each(cases)('%s, %s (age %p, %p bpm) → %s', (_label, _edge, age, hr, severity) => {
+    expect(assess(hr, SPO2, { age }).severity).toBe(severity);
+  });
+
+  it('names the band in the detail', () => {
+    expect(assess(band('toddler').hrMax + 1, SPO2, { age: 2 }).detail).toContain('90–150 bpm for a toddler');
+  });
+});
+
+// ── Presets ───────────────────────────────────────────────────────────────────
+
+describe('rangesFor', () => {
+  const custom: TargetRanges = { ...DEFAULT_RANGES, preset: 'custom', hrMin: 50, hrMax: 90 };
+
+  it('adjusts the default adult preset for age', () => {
+    expect(rangesFor({ age: 4 })).toMatchObject({ preset: 'adult', hrMin: 80, hrMax: 140 });
+    expect(rangesFor({ ranges: presetRanges('adult'), age: 70 })).toMatchObject({ hrMin: 55, hrCriticalHigh: 130 });
+  });
+
+  it('leaves adults between bands on the preset', () => {
+    expect(rangesFor({ age: 40 })).toEqual(DEFAULT_RANGES);
+  });
+
+  it.each(['copd', 'postop'] as const)('never loosens the %s preset for age', (preset) => {
+    const ranges = presetRanges(preset);
+    expect(rangesFor({ ranges, age: 70 })).toEqual(ranges);
+    expect(rangesFor({ ranges, age: 8 })).toEqual(ranges);
+  });
+
+  it('keeps custom ranges as they are', () => {
+    expect(rangesFor({ ranges: custom, age: 0.5 })).toEqual(custom);
+  });
+
+  it('grades a post-op older adult against the post-op limits', () => {
+    // 44 bpm is only a caution for the older-adult band, but below post-op's critical low
+    const postop = presetRanges('postop');
+    expect(assess(postop.hrCriticalLow - 1, SPO2, { ranges: postop, age: 70 }).severity).toBe('critical');
+  });
+});
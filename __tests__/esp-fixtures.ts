@@ -0,0 +1,55 @@
+import type { ESPClient } from '@/hooks/use-measurement-session';
+import type { ESPData, ESPStreamHandlers } from '@/esp';
+
+// Shared by the measurement session tests — a device reading and an ESP
+// client whose every call is a jest mock
+
+export const reading = (overrides: Partial<ESPData> = {}): ESPData => ({
+  heartRate: 72,
+  spo2: 98,
+  hrValid: 5,
+  spo2Valid: 5,
+  totalSamples: 5,
+  running: true,
+  status: 'measuring',
+  sessionId: 'session-1',
+  ...overrides,
+});
+
+export const finished = (overrides: Partial<ESPData> = {}): ESPData =>
+  reading({ running: false, status: 'Normal', endReason: 'complete', ...overrides });
+
+export type MockClient = {
+  fetchESPData: jest.Mock;
+  startMeasurement: jest.Mock;
+  cancelMeasurement: jest.Mock;
+  openESPStream?: jest.Mock;
+};
+
+// Polls unless `stream` is set; the stream's handlers are kept in `streams`
+export const mockClient = ({ stream = false } = {}) => {
+  const streams: ESPStreamHandlers[] = [];
+  const client: MockClient = {
+    fetchESPData: jest.fn().mockResolvedValue(reading()),
+    startMeasurement: jest.fn().mockResolvedValue('session-1'),
+    cancelMeasurement: jest.fn().mockResolvedValue(undefined),
+    ...(stream && {
+      openESPStream: jest.fn((_ip: string, handlers: ESPStreamHandlers) => {
+        streams.push(handlers);
+        return { close: jest.fn() };
+      }),
+    }),
+  };
+  return { client: client as MockClient & ESPClient, streams };
+};
+
+// A promise that's settled from the outside
+export const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
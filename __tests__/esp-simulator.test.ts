@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import WebSocket from 'ws';
+
+import {
+  DEFAULT_DEVICE_CONFIG,
+  describePairingError,
+  ESPData,
+  ESPError,
+  ESPSample,
+  fetchDeviceConfig,
+  openESPStream,
+  pairWithDevice,
+  requestPairing,
+  resetDeviceConfig,
+  startMeasurement,
+  updateDeviceConfig,
+} from '@/esp';
+import { MeasurementSessionOptions, useMeasurementSession } from '@/hooks/use-measurement-session';
+import { createESPSimulator, ESPSimulator, scenarios } from '@/scripts/esp-simulator';
+
+// The app's real ESP client against the device simulator over localhost —
+// HTTP for /start, /data and /config, the WebSocket on the next port up for the stream
+
+let mockRecordIds = 0;
+jest.mock('@/outbox', () => ({ newRecordId: () => `record-${++mockRecordIds}` }));
+
+// Node has no global WebSocket; React Native's has the same on* API as ws
+(globalThis as { WebSocket?: unknown }).WebSocket = WebSocket;
+
+// A measurement takes about 4 s — the simulator's greeting and countdown are fixed
+jest.setTimeout(20000);
+
+let simulator: ESPSimulator | null = null;
+
+const startSimulator = async (options: { stream?: boolean; pairing?: boolean; log?: (message: string) => void } = {}) => {
+  simulator = createESPSimulator({
+    port: 0,
+    windowMs: 50,
+    pairing: false,
+    scenario: scenarios.normal,
+    log: () => {},
+    ...options,
+  });
+  const port = await simulator.listen();
+  return `127.0.0.1:${port}`;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await simulator?.close();
+  simulator = null;
+  jest.restoreAllMocks();
+});
+
+const renderSession = (deviceIP: string) => {
+  const onComplete = jest.fn<Promise<void>, Parameters<MeasurementSessionOptions['onComplete']>>()
+    .mockResolvedValue(undefined);
+  const hook = renderHook(() => useMeasurementSession({ deviceIP, onComplete, pollIntervalMs: 200 }));
+  return { ...hook, onComplete };
+};
+
+// ── Stream ────────────────────────────────────────────────────────────────────
+
+it('streams status and sample messages for a measurement', async () => {
+  const deviceIP = await startSimulator();
+  const statuses: ESPData[] = [];
+  const samples: ESPSample[] = [];
+  const onClose = jest.fn();
+
+  const sessionId = await startMeasurement(deviceIP, 'Ada');
+  const stream = openESPStream(deviceIP, {
+    onStatus: (data) => statuses.push(data),
+    onSample: (sample) => samples.push(sample),
+    onClose,
+  });
+
+  await waitFor(() => expect(statuses.some((s) => !s.running)).toBe(true), { timeout: 10000 });
+  stream.close();
+
+  expect(statuses[0]).toMatchObject({ running: true, sessionId, patientName: 'Ada' });
+  expect(samples.map((s) => s.index)).toEqual([1, 2, 3, 4, 5]);
+  expect(samples[0]).toEqual({ type: 'sample', index: 1, total: 5, heartRate: 72, spo2: 98 });
+  expect(statuses[statuses.length - 1]).toMatchObject({
+    running: false,
+    endReason: 'complete',
+    hrValid: 5,
+    heartRate: 72,
+    sessionId,
+    // Reported whether or not the device pairs
+    perfusion: [3, 3, 3, 3, 3],
+  });
+  expect(onClose).toHaveBeenCalledWith(null);
+});
+
+it('saves a measurement driven by the live stream', async () => {
+  const deviceIP = await startSimulator();
+  const { result, onComplete } = renderSession(deviceIP);
+
+  await act(async () => { await result.current.start(); });
+  expect(result.current.phase).toBe('measuring');
+
+  await waitFor(() => expect(result.current.progress).not.toBeNull(), { timeout: 10000 });
+  await waitFor(() => expect(result.current.phase).toBe('saved'), { timeout: 10000 });
+
+  expect(onComplete).toHaveBeenCalledTimes(1);
+  expect(onComplete.mock.calls[0][0]).toMatchObject({ running: false, heartRate: 72, spo2: 97 });
+  expect(result.current.progress).toMatchObject({ index: 5, total: 5 });
+});
+
+it('falls back to polling on a device without the stream', async () => {
+  const deviceIP = await startSimulator({ stream: false });
+  const { result, onComplete } = renderSession(deviceIP);
+
+  await act(async () => { await result.current.start(); });
+  await waitFor(() => expect(result.current.phase).toBe('saved'), { timeout: 10000 });
+
+  expect(console.log).toHaveBeenCalledWith('[Session] Live stream unavailable — polling instead');
+  expect(onComplete).toHaveBeenCalledTimes(1);
+  expect(onComplete.mock.calls[0][0]).toMatchObject({ running: false, endReason: 'complete' });
+  // Samples only ever arrive over the stream
+  expect(result.current.progress).toBeNull();
+});
+
+// ── Device config ─────────────────────────────────────────────────────────────
+
+describe('device config', () => {
+  it('reads the current config', async () => {
+    const deviceIP = await startSimulator();
+    await expect(fetchDeviceConfig(deviceIP)).resolves.toEqual(DEFAULT_DEVICE_CONFIG);
+  });
+
+  it('keeps a valid change', async () => {
+    const deviceIP = await startSimulator();
+    const changes = { irFingerThreshold: 80000, sampleCounts: [40, 40, 50, 50, 60] };
+
+    await expect(updateDeviceConfig(deviceIP, changes)).resolves.toEqual({ ...DEFAULT_DEVICE_CONFIG, ...changes });
+    await expect(fetchDeviceConfig(deviceIP)).resolves.toEqual({ ...DEFAULT_DEVICE_CONFIG, ...changes });
+  });
+
+  it('goes back to the defaults on reset', async () => {
+    const deviceIP = await startSimulator();
+    await updateDeviceConfig(deviceIP, { displayIntervalMs: 2000 });
+
+    await expect(resetDeviceConfig(deviceIP)).resolves.toEqual(DEFAULT_DEVICE_CONFIG);
+    await expect(fetchDeviceConfig(deviceIP)).resolves.toEqual(DEFAULT_DEVICE_CONFIG);
+  });
+
+  it('rejects out-of-range values with HTTP 400 and keeps the old config', async () => {
+    const deviceIP = await startSimulator();
+
+    const update = updateDeviceConfig(deviceIP, { irFingerThreshold: 1 });
+    await expect(update).rejects.toBeInstanceOf(ESPError);
+    await expect(update).rejects.toMatchObject({ kind: 'http', status: 400 });
+    await expect(fetchDeviceConfig(deviceIP)).resolves.toEqual(DEFAULT_DEVICE_CONFIG);
+  });
+
+  it('rejects changes during a measurement as busy', async () => {
+    const deviceIP = await startSimulator();
+    await startMeasurement(deviceIP, 'Ada');
+
+    const update = updateDeviceConfig(deviceIP, { displayIntervalMs: 2000 });
+    await expect(update).rejects.toBeInstanceOf(ESPError);
+    await expect(update).rejects.toMatchObject({ kind: 'busy', status: 409 });
+    await expect(resetDeviceConfig(deviceIP)).rejects.toMatchObject({ kind: 'busy' });
+  });
+});
+
+// ── Pairing ───────────────────────────────────────────────────────────────────
+
+describe('pairing', () => {
+  // The PIN the device would show on its screen, which the simulator logs instead
+  const startPairingSimulator = async () => {
+    const log = jest.fn<void, [string]>();
+    const deviceIP = await startSimulator({ pairing: true, log });
+    const shownPin = () => {
+      const lines = log.mock.calls.map(([message]) => message).filter((m) => m.includes('PIN'));
+      return lines[lines.length - 1].match(/PIN (\d{6})/)![1];
+    };
+    const wrongPin = () => String((Number(shownPin()) + 1) % 1000000).padStart(6, '0');
+    const guessWrong = async (times: number) => {
+      for (let i = 0; i < times; i++) {
+        await expect(pairWithDevice(deviceIP, wrongPin())).rejects.toMatchObject({ kind: 'unauthorized' });
+      }
+    };
+    return { deviceIP, shownPin, guessWrong };
+  };
+
+  it('pairs with the PIN shown on the device', async () => {
+    const { deviceIP, shownPin } = await startPairingSimulator();
+    await requestPairing(deviceIP);
+
+    const token = await pairWithDevice(deviceIP, shownPin());
+    await expect(fetchDeviceConfig(deviceIP, { token })).resolves.toEqual(DEFAULT_DEVICE_CONFIG);
+  });
+
+  it('locks pairing after too many wrong PINs', async () => {
+    const { deviceIP, shownPin, guessWrong } = await startPairingSimulator();
+    await requestPairing(deviceIP);
+    const pin = shownPin();
+    await guessWrong(5);
+
+    // The window is closed, even for the right PIN, and no new one can be opened
+    await expect(pairWithDevice(deviceIP, pin)).rejects.toMatchObject({ kind: 'http', status: 410 });
+    const request = requestPairing(deviceIP);
+    await expect(request).rejects.toMatchObject({ kind: 'http', status: 429 });
+    expect(describePairingError(await request.catch((err: unknown) => err))).toMatch(/Too many wrong PINs/);
+  });
+
+  it('counts wrong PINs across pairing windows', async () => {
+    const { deviceIP, guessWrong } = await startPairingSimulator();
+    await requestPairing(deviceIP);
+    await guessWrong(3);
+    // A fresh window doesn't reset the count
+    await requestPairing(deviceIP);
+    await guessWrong(2);
+
+    await expect(requestPairing(deviceIP)).rejects.toMatchObject({ status: 429 });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { deleteDoc, doc, getDoc, serverTimestamp, setDoc, Timestamp, updateDoc } from 'firebase/firestore';
+
+import { presetRanges } from '@/app/assessment';
+import { RECORD_SCHEMA_VERSION } from '@/repositories';
+
+// firestore.rules against the Firestore emulator. Needs the emulator running,
+// so it's left out of `npm test` — run it with `npm run test:rules`.
+
+// Only the schema version is needed from the repository, not a Firebase app
+jest.mock('@/firebase', () => ({ db: {} }));
+
+const root = path.join(__dirname, '..');
+const { port } = JSON.parse(readFileSync(path.join(root, 'firebase.json'), 'utf8')).emulators.firestore;
+
+const ALICE = 'alice';
+const BOB = 'bob';
+const PATIENT = `users/${ALICE}/patients/p1`;
+const RECORD = `${PATIENT}/records/r1`;
+const DEVICE = `users/${ALICE}/devices/d1`;
+
+let env: RulesTestEnvironment;
+
+// The Firestore of a signed-in user, or of a signed-out client
+const firestoreOf = (uid: string | null) =>
+  (uid ? env.authenticatedContext(uid) : env.unauthenticatedContext()).firestore();
+
+// A current-version record as repositories.ts writes it
+const record = (overrides: { [field: string]: unknown } = {}) => ({
+  heartRate: 72,
+  spo2: 98,
+  status: 'Normal',
+  severity: 'normal',
+  assessmentVersion: 2,
+  quality: 90,
+  totalSamples: 5,
+  hrValid: 5,
+  spo2Valid: 5,
+  readings: null,
+  deviceId: null,
+  firmwareVersion: null,
+  measuredAt: Timestamp.now(),
+  createdAt: serverTimestamp(),
+  schemaVersion: RECORD_SCHEMA_VERSION,
+  ...overrides,
+});
+
+const create = (data: { [field: string]: unknown }, uid: string | null = ALICE) =>
+  setDoc(doc(firestoreOf(uid), RECORD), data);
+
+// Writes straight to the emulator, as if the app had saved it earlier
+const seed = (path: string, data: { [field: string]: unknown }) =>
+  env.withSecurityRulesDisabled((context) => setDoc(doc(context.firestore(), path), data));
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-pulse-oxy',
+    firestore: { rules: readFileSync(path.join(root, 'firestore.rules'), 'utf8'), host: '127.0.0.1', port },
+  });
+});
+
+afterEach(() => env.clearFirestore());
+
+afterAll(() => env.cleanup());
+
+// ── Ownership ─────────────────────────────────────────────────────────────────
+
+describe('ownership', () => {
+  beforeEach(() => seed(RECORD, record()));
+
+  it('lets the owner read their record', async () => {
+    await assertSucceeds(getDoc(doc(firestoreOf(ALICE), RECORD)));
+  });
+
+  it.each([BOB, null])('denies reads by %p', async (uid) => {
+    await assertFails(getDoc(doc(firestoreOf(uid), RECORD)));
+  });
+
+  it.each([BOB, null])('denies writes by %p', async (uid) => {
+    await assertFails(create(record(), uid));
+    await assertFails(updateDoc(doc(firestoreOf(uid), RECORD), { heartRate: 80 }));
+    await assertFails(deleteDoc(doc(firestoreOf(uid), RECORD)));
+  });
+
+  it('lets the owner delete their record', async () => {
+    await assertSucceeds(deleteDoc(doc(firestoreOf(ALICE), RECORD)));
+  });
+});
+
+// ── Record shape ──────────────────────────────────────────────────────────────
+
+describe('records', () => {
+  it('accepts a valid record', async () => {
+    await assertSucceeds(create(record()));
+  });
+
+  const bounds: [string, number, boolean][] = [
+    ['heartRate', 20, true],
+    ['heartRate', 19, false],
+    ['heartRate', 250, true],
+    ['heartRate', 251, false],
+    ['spo2', 50, true],
+    ['spo2', 49, false],
+    ['spo2', 100, true],
+    ['spo2', 101, false],
+  ];
+
+  it.each(bounds)('%s = %p is allowed: %p', async (field, value, allowed) => {
+    const write = create(record({ [field]: value }));
+    await (allowed ? assertSucceeds(write) : assertFails(write));
+  });
+
+  it.each(['heartRate', 'spo2'])('rejects a %s that is not a number', async (field) => {
+    await assertFails(create(record({ [field]: '72' })));
+  });
+
+  it('rejects a create whose createdAt is not the server time', async () => {
+    await assertFails(create(record({ createdAt: Timestamp.now() })));
+  });
+
+  it('rejects a create without createdAt', async () => {
+    const { createdAt, ...withoutCreatedAt } = record();
+    await assertFails(create(withoutCreatedAt));
+  });
+
+  it('rejects a measuredAt in the future', async () => {
+    const inAnHour = Timestamp.fromMillis(Date.now() + 60 * 60 * 1000);
+    await assertFails(create(record({ measuredAt: inAnHour })));
+  });
+
+  it('rejects unknown fields', async () => {
+    await assertFails(create(record({ notes: 'felt dizzy' })));
+  });
+
+  it('rejects records older than schema version 2', async () => {
+    await assertFails(create(record({ schemaVersion: 1 })));
+  });
+});
+
+// ── Record updates ────────────────────────────────────────────────────────────
+
+describe('record updates', () => {
+  const savedAt = Timestamp.fromMillis(Date.now() - 60 * 60 * 1000);
+
+  beforeEach(() => seed(RECORD, record({ createdAt: savedAt })));
+
+  const update = (changes: { [field: string]: unknown }) =>
+    updateDoc(doc(firestoreOf(ALICE), RECORD), changes);
+
+  it('lets the owner change a record that keeps its createdAt', async () => {
+    await assertSucceeds(update({ severity: 'caution', assessmentVersion: 3 }));
+  });
+
+  it('lets the owner save the record again with a fresh server timestamp', async () => {
+    await assertSucceeds(setDoc(doc(firestoreOf(ALICE), RECORD), record()));
+  });
+
+  it('rejects an update that sets createdAt from the client clock', async () => {
+    await assertFails(update({ createdAt: Timestamp.now() }));
+  });
+
+  it('rejects an update that breaks the record shape', async () => {
+    await assertFails(update({ spo2: 101 }));
+    await assertFails(update({ heartRate: 'fast' }));
+  });
+});
+
+// ── Patients ──────────────────────────────────────────────────────────────────
+
+describe('patients', () => {
+  const patient = (overrides: { [field: string]: unknown } = {}) => ({
+    name: 'Ada',
+    age: 70,
+    condition: 'COPD',
+    ranges: presetRanges('copd'),
+    ...overrides,
+  });
+  const createPatient = (data: { [field: string]: unknown }, uid: string | null = ALICE) =>
+    setDoc(doc(firestoreOf(uid), PATIENT), data);
+
+  it('accepts a valid patient', async () => {
+    await assertSucceeds(createPatient(patient()));
+    await assertSucceeds(createPatient(patient({ age: null, condition: null, ranges: null })));
+  });
+
+  it.each([BOB, null])('denies creating a patient for someone else (%p)', async (uid) => {
+    await assertFails(createPatient(patient(), uid));
+  });
+
+  const invalid: [string, { [field: string]: unknown }][] = [
+    ['an empty name', { name: '' }],
+    ['a name that is not a string', { name: 42 }],
+    ['an age over 130', { age: 131 }],
+    ['a negative age', { age: -1 }],
+    ['a condition over 200 characters', { condition: 'x'.repeat(201) }],
+    ['an unknown preset', { ranges: { ...presetRanges('adult'), preset: 'athlete' } }],
+    ['SpO₂ targets out of order', { ranges: { ...presetRanges('adult'), spo2Alert: 97 } }],
+    ['an SpO₂ target above 100', { ranges: { ...presetRanges('adult'), spo2Max: 101 } }],
+    ['heart-rate targets out of order', { ranges: { ...presetRanges('adult'), hrMin: 120 } }],
+    ['a critical heart rate above 250', { ranges: { ...presetRanges('adult'), hrCriticalHigh: 251 } }],
+  ];
+
+  it.each(invalid)('rejects %s', async (_name, overrides) => {
+    await assertFails(createPatient(patient(overrides)));
+  });
+});
+
+// ── Devices ───────────────────────────────────────────────────────────────────
+
+describe('devices', () => {
+  const device = (overrides: { [field: string]: unknown } = {}) => ({
+    name: 'Oximeter',
+    ip: '192.168.1.50',
+    lastSeen: null,
+    isDefault: true,
+    ...overrides,
+  });
+  const createDevice = (data: { [field: string]: unknown }, uid: string | null = ALICE) =>
+    setDoc(doc(firestoreOf(uid), DEVICE), data);
+
+  it('accepts a valid device', async () => {
+    await assertSucceeds(createDevice(device()));
+  });
+
+  it.each([BOB, null])('denies creating a device for someone else (%p)', async (uid) => {
+    await assertFails(createDevice(device(), uid));
+  });
+
+  const invalid: [string, { [field: string]: unknown }][] = [
+    ['a name that is not a string', { name: 7 }],
+    ['a name over 100 characters', { name: 'x'.repeat(101) }],
+    ['an IP that is not a string', { ip: 192168150 }],
+    ['an IP over 64 characters', { ip: '1'.repeat(65) }],
+  ];
+
+  it.each(invalid)('rejects %s', async (_name, overrides) => {
+    await assertFails(createDevice(device(overrides)));
+  });
+});
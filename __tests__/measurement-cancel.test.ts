@@ -0,0 +1,115 @@
+import axios from 'axios';
+import { act, renderHook } from '@testing-library/react-native';
+
+import { fetchESPData } from '@/esp';
+import { MeasurementSessionOptions, useMeasurementSession } from '@/hooks/use-measurement-session';
+import { deferred, finished, mockClient, reading } from './esp-fixtures';
+
+// A cancelled measurement must never be saved, whatever the device or the
+// network does after the cancel
+
+let mockRecordIds = 0;
+jest.mock('@/outbox', () => ({ newRecordId: () => `record-${++mockRecordIds}` }));
+
+// esp.ts makes its requests through one axios instance, created on import
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  return {
+    ...actual,
+    __esModule: true,
+    default: { ...actual.default, create: jest.fn(() => ({ get: jest.fn(), post: jest.fn() })) },
+  };
+});
+
+const POLL_MS = 3000;
+
+const renderSession = (client = mockClient().client) => {
+  const onComplete = jest.fn<Promise<void>, Parameters<MeasurementSessionOptions['onComplete']>>()
+    .mockResolvedValue(undefined);
+  const hook = renderHook(() =>
+    useMeasurementSession({ deviceIP: '192.168.1.50', onComplete, client, pollIntervalMs: POLL_MS })
+  );
+  return { ...hook, onComplete, client };
+};
+
+const advance = (ms = 0) => act(() => jest.advanceTimersByTimeAsync(ms));
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+it('never saves when cancelled while starting', async () => {
+  const { result, client, onComplete } = renderSession();
+  const startResponse = deferred<string | null>();
+  client.startMeasurement.mockReturnValueOnce(startResponse.promise);
+  client.fetchESPData.mockResolvedValue(finished());
+
+  let started: Promise<boolean> | undefined;
+  act(() => { started = result.current.start(); });
+  expect(result.current.phase).toBe('starting');
+
+  await act(async () => { await result.current.cancel(); });
+  expect(result.current.phase).toBe('cancelled');
+
+  // The device accepts the /start after all
+  await act(async () => startResponse.resolve('session-1'));
+  await expect(started).resolves.toBe(false);
+  await advance(POLL_MS * 10);
+
+  expect(client.fetchESPData).not.toHaveBeenCalled();
+  expect(onComplete).not.toHaveBeenCalled();
+  expect(result.current.phase).toBe('cancelled');
+});
+
+it('never saves a finished reading that arrives after the cancel', async () => {
+  const { result, client, onComplete } = renderSession();
+  const response = deferred<ReturnType<typeof reading>>();
+  client.fetchESPData.mockReturnValueOnce(response.promise);
+
+  await act(async () => { await result.current.start(); });
+  await advance(POLL_MS);
+  expect(client.fetchESPData).toHaveBeenCalledTimes(1);
+  const [, { signal }] = client.fetchESPData.mock.calls[0];
+
+  await act(async () => { await result.current.cancel(); });
+  expect(signal.aborted).toBe(true);
+
+  // The request that was already in flight comes back with a finished reading
+  await act(async () => response.resolve(finished()));
+  await advance(POLL_MS * 10);
+
+  expect(onComplete).not.toHaveBeenCalled();
+  expect(client.fetchESPData).toHaveBeenCalledTimes(1);
+  expect(result.current).toMatchObject({ phase: 'cancelled', data: null });
+});
+
+it('never saves when cancelled during a retry backoff', async () => {
+  const http = jest.mocked(axios.create).mock.results[0].value as { get: jest.Mock };
+  http.get
+    .mockRejectedValueOnce(new Error('socket hang up'))
+    .mockResolvedValue({ data: finished() });
+  // The real fetchESPData, so its withRetry() backoff is what gets interrupted
+  const { client } = mockClient();
+  client.fetchESPData.mockImplementation(fetchESPData);
+  const { result, onComplete } = renderSession(client);
+
+  await act(async () => { await result.current.start(); });
+  await advance(POLL_MS);
+  // First attempt failed; withRetry is now sleeping before the second
+  expect(http.get).toHaveBeenCalledTimes(1);
+  expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/Retry 1\/2/));
+
+  await act(async () => { await result.current.cancel(); });
+  await advance(POLL_MS * 10);
+
+  expect(http.get).toHaveBeenCalledTimes(1);
+  expect(onComplete).not.toHaveBeenCalled();
+  expect(result.current.phase).toBe('cancelled');
+});
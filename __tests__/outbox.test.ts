@@ -0,0 +1,117 @@
+import type * as Outbox from '@/outbox';
+
+// The outbox against an in-memory AsyncStorage and a mocked Firestore save —
+// which errors are retried on the next flush and which are given up on
+
+const mockSave = jest.fn();
+jest.mock('@/repositories', () => ({ firestoreRepositories: { records: { save: mockSave } } }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Firestore errors carry their code like this
+const firestoreError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const reading = (id: string) => ({
+  id,
+  uid: 'alice',
+  patientId: 'p1',
+  record: {
+    heartRate: 72,
+    spo2: 98,
+    status: 'Normal' as const,
+    severity: 'normal' as const,
+    assessmentVersion: 2,
+    quality: 90,
+    totalSamples: 5,
+    hrValid: 5,
+    spo2Valid: 5,
+    readings: null,
+    deviceId: null,
+    firmwareVersion: null,
+    measuredAt: '2026-10-01T09:00:00.000Z',
+  },
+});
+
+let outbox: typeof Outbox;
+
+beforeEach(() => {
+  // The queue is cached in the module — every test starts from a fresh one
+  jest.isolateModules(() => {
+    outbox = require('@/outbox');
+  });
+  require('@react-native-async-storage/async-storage').clear();
+  mockSave.mockReset().mockResolvedValue(undefined);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('removes entries once they are written', async () => {
+  await outbox.enqueueRecord(reading('r1'));
+
+  await expect(outbox.flushOutbox()).resolves.toEqual({ synced: 1, remaining: 0, failed: 0 });
+  expect(mockSave).toHaveBeenCalledWith('alice', 'p1', 'r1', expect.objectContaining({ heartRate: 72 }));
+  await expect(outbox.getOutbox()).resolves.toEqual([]);
+});
+
+it('keeps retrying while offline and stops at the first offline error', async () => {
+  await outbox.enqueueRecord(reading('r1'));
+  await outbox.enqueueRecord(reading('r2'));
+  mockSave.mockRejectedValue(firestoreError('unavailable', 'Client is offline'));
+
+  for (let i = 0; i < 15; i++) await outbox.flushOutbox();
+
+  // Only the first entry is tried — the second would fail the same way
+  expect(mockSave).toHaveBeenCalledTimes(15);
+  const [first, second] = await outbox.getOutbox();
+  expect(first).toMatchObject({ attempts: 15, failed: false, lastError: 'Client is offline' });
+  expect(second).toMatchObject({ attempts: 0, failed: false });
+});
+
+it('gives up on a write the server rejects and syncs the rest', async () => {
+  await outbox.enqueueRecord(reading('r1'));
+  await outbox.enqueueRecord(reading('r2'));
+  mockSave.mockRejectedValueOnce(firestoreError('permission-denied', 'Missing or insufficient permissions.'));
+
+  await expect(outbox.flushOutbox()).resolves.toEqual({ synced: 1, remaining: 0, failed: 1 });
+  const entries = await outbox.getOutbox();
+  expect(entries).toEqual([
+    expect.objectContaining({ id: 'r1', failed: true, attempts: 1, lastError: 'Missing or insufficient permissions.' }),
+  ]);
+  expect(outbox.failedEntries(entries)).toHaveLength(1);
+
+  // Never sent again on its own
+  await outbox.flushOutbox();
+  expect(mockSave).toHaveBeenCalledTimes(2);
+});
+
+it('gives up after repeated errors that are not about the connection', async () => {
+  await outbox.enqueueRecord(reading('r1'));
+  mockSave.mockRejectedValue(firestoreError('internal', 'Internal error'));
+
+  for (let i = 0; i < 12; i++) await outbox.flushOutbox();
+
+  expect(mockSave).toHaveBeenCalledTimes(10);
+  await expect(outbox.getOutbox()).resolves.toEqual([
+    expect.objectContaining({ failed: true, attempts: 10, lastError: 'Internal error' }),
+  ]);
+});
+
+it('sends failed entries again once retried, or drops them when discarded', async () => {
+  await outbox.enqueueRecord(reading('r1'));
+  await outbox.enqueueRecord(reading('r2'));
+  mockSave.mockRejectedValue(firestoreError('permission-denied', 'Missing or insufficient permissions.'));
+  await outbox.flushOutbox();
+  expect(outbox.failedEntries(await outbox.getOutbox())).toHaveLength(2);
+
+  mockSave.mockResolvedValueOnce(undefined);
+  await outbox.retryFailed();
+  await expect(outbox.flushOutbox()).resolves.toEqual({ synced: 1, remaining: 0, failed: 1 });
+
+  await outbox.discardFailed();
+  await expect(outbox.getOutbox()).resolves.toEqual([]);
+});
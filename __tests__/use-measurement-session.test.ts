@@ -0,0 +1,211 @@
+import { act, renderHook } from '@testing-library/react-native';
+
+import { INITIAL_HEALTH, nextPollDelay, recordSuccess } from '@/esp';
+import {
+  initialSessionState,
+  MeasurementSessionOptions,
+  SessionEvent,
+  SessionPhase,
+  SessionState,
+  transition,
+  useMeasurementSession,
+} from '@/hooks/use-measurement-session';
+import { deferred, finished, mockClient, reading } from './esp-fixtures';
+
+// The real outbox pulls in Firebase and AsyncStorage — only the ID generator is needed
+let mockRecordIds = 0;
+jest.mock('@/outbox', () => ({ newRecordId: () => `record-${++mockRecordIds}` }));
+
+const POLL_MS = 3000;
+
+const inPhase = (phase: SessionPhase, overrides: Partial<SessionState> = {}): SessionState => ({
+  ...initialSessionState,
+  phase,
+  ...overrides,
+});
+
+const renderSession = (options: Partial<MeasurementSessionOptions> = {}, { stream = false } = {}) => {
+  const onComplete = jest.fn<Promise<void>, Parameters<MeasurementSessionOptions['onComplete']>>()
+    .mockResolvedValue(undefined);
+  const { client, streams } = mockClient({ stream });
+  const hook = renderHook(() =>
+    useMeasurementSession({ deviceIP: '192.168.1.50', onComplete, client, pollIntervalMs: POLL_MS, ...options })
+  );
+  return { ...hook, onComplete, client, streams };
+};
+
+// Lets pending promises and any timers due within `ms` run
+const advance = (ms = 0) => act(() => jest.advanceTimersByTimeAsync(ms));
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+// ── transition ────────────────────────────────────────────────────────────────
+
+describe('transition', () => {
+  const data = reading();
+  const cases: [string, SessionState, SessionEvent, SessionPhase][] = [
+    ['starts from idle', inPhase('idle'), { type: 'START' }, 'starting'],
+    ['starts again once saved', inPhase('saved'), { type: 'START' }, 'starting'],
+    ['starts again after a failure', inPhase('failed'), { type: 'START' }, 'starting'],
+    ['starts again after a cancel', inPhase('cancelled'), { type: 'START' }, 'starting'],
+    ['moves on to measuring once started', inPhase('starting'), { type: 'STARTED' }, 'measuring'],
+    ['completes on the first finished reading', inPhase('measuring'), { type: 'FINISHED', data }, 'completing'],
+    ['is saved once onComplete resolves', inPhase('completing'), { type: 'SAVED' }, 'saved'],
+    ['fails a start', inPhase('starting'), { type: 'FAIL', reason: 'start', message: '' }, 'failed'],
+    ['fails when the device aborts', inPhase('measuring'), { type: 'FAIL', reason: 'aborted', message: '' }, 'failed'],
+    ['fails a save', inPhase('completing'), { type: 'FAIL', reason: 'save', message: '' }, 'failed'],
+    ['retries a failed save', inPhase('failed', { failure: 'save' }), { type: 'RETRY_SAVE' }, 'completing'],
+    ['cancels while starting', inPhase('starting'), { type: 'CANCEL' }, 'cancelled'],
+    ['cancels while measuring', inPhase('measuring'), { type: 'CANCEL' }, 'cancelled'],
+  ];
+
+  it.each(cases)('%s', (_name, state, event, phase) => {
+    expect(transition(state, event).phase).toBe(phase);
+  });
+
+  const ignored: [string, SessionState, SessionEvent][] = [
+    ['a second start while measuring', inPhase('measuring'), { type: 'START' }],
+    ['a late STARTED after a cancel', inPhase('cancelled'), { type: 'STARTED' }],
+    ['data after a cancel', inPhase('cancelled'), { type: 'DATA', data }],
+    ['a second finished reading', inPhase('completing'), { type: 'FINISHED', data }],
+    ['a finished reading after a cancel', inPhase('cancelled'), { type: 'FINISHED', data }],
+    ['SAVED while still measuring', inPhase('measuring'), { type: 'SAVED' }],
+    ['a start failure while measuring', inPhase('measuring'), { type: 'FAIL', reason: 'start', message: '' }],
+    ['a save failure while measuring', inPhase('measuring'), { type: 'FAIL', reason: 'save', message: '' }],
+    ['a retry after a failure that was not a save', inPhase('failed', { failure: 'aborted' }), { type: 'RETRY_SAVE' }],
+    ['a cancel once completing', inPhase('completing'), { type: 'CANCEL' }],
+  ];
+
+  it.each(ignored)('ignores %s', (_name, state, event) => {
+    expect(transition(state, event)).toBe(state);
+  });
+
+  it('keeps the reading and clears the error on data', () => {
+    const next = transition(inPhase('measuring', { error: 'Slow' }), { type: 'DATA', data });
+    expect(next).toMatchObject({ phase: 'measuring', data, error: '' });
+  });
+
+  it('starts with a clean state', () => {
+    const failed = inPhase('failed', { data, error: 'Save failed', failure: 'save' });
+    expect(transition(failed, { type: 'START' })).toEqual(inPhase('starting'));
+  });
+});
+
+// ── useMeasurementSession ─────────────────────────────────────────────────────
+
+describe('useMeasurementSession', () => {
+  it('goes from start to saved with a polled reading', async () => {
+    const { result, client, onComplete } = renderSession({ patientName: 'Ada' });
+    client.fetchESPData.mockResolvedValueOnce(reading()).mockResolvedValueOnce(finished());
+
+    let started: boolean | undefined;
+    await act(async () => { started = await result.current.start('token-1'); });
+    expect(started).toBe(true);
+    expect(client.startMeasurement).toHaveBeenCalledWith(
+      '192.168.1.50', 'Ada', expect.objectContaining({ token: 'token-1' })
+    );
+    expect(result.current.phase).toBe('measuring');
+
+    await advance(POLL_MS);
+    expect(client.fetchESPData).toHaveBeenCalledTimes(1);
+    expect(result.current.data).toEqual(reading());
+
+    await advance(POLL_MS);
+    expect(client.fetchESPData).toHaveBeenCalledTimes(2);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith(
+      finished(),
+      { id: expect.stringMatching(/^record-/), completedAt: expect.any(Date) }
+    );
+    expect(result.current.phase).toBe('saved');
+
+    // Nothing is polled once the reading is saved
+    await advance(POLL_MS * 10);
+    expect(client.fetchESPData).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes only the first finished reading to onComplete', async () => {
+    const { result, client, streams, onComplete } = renderSession({}, { stream: true });
+    const save = deferred<void>();
+    onComplete.mockReturnValueOnce(save.promise);
+
+    await act(async () => { await result.current.start(); });
+    expect(streams).toHaveLength(1);
+
+    act(() => {
+      streams[0].onStatus(finished({ heartRate: 70 }));
+      streams[0].onStatus(finished({ heartRate: 90 }));
+    });
+    expect(result.current.phase).toBe('completing');
+    await act(async () => save.resolve());
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete.mock.calls[0][0]).toMatchObject({ heartRate: 70 });
+    expect(result.current.phase).toBe('saved');
+    expect(client.fetchESPData).not.toHaveBeenCalled();
+  });
+
+  it('never starts a poll before the previous one has settled', async () => {
+    const { result, client } = renderSession();
+    const slowResponse = deferred<ReturnType<typeof reading>>();
+    client.fetchESPData.mockReturnValueOnce(slowResponse.promise);
+
+    await act(async () => { await result.current.start(); });
+    await advance(POLL_MS);
+    expect(client.fetchESPData).toHaveBeenCalledTimes(1);
+
+    // Far longer than any poll interval — still only the one request
+    const latency = 25000;
+    await advance(latency);
+    expect(client.fetchESPData).toHaveBeenCalledTimes(1);
+
+    await act(async () => slowResponse.resolve(reading()));
+    const delay = nextPollDelay(recordSuccess(INITIAL_HEALTH, latency), POLL_MS);
+    expect(delay).toBe(10000);
+
+    await advance(delay - 1);
+    expect(client.fetchESPData).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(client.fetchESPData).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries a failed save under the same measurement ID', async () => {
+    const { result, client, onComplete } = renderSession();
+    client.fetchESPData.mockResolvedValueOnce(finished());
+    onComplete.mockRejectedValueOnce(new Error('offline'));
+
+    await act(async () => { await result.current.start(); });
+    await advance(POLL_MS);
+    expect(result.current).toMatchObject({ phase: 'failed', failure: 'save' });
+
+    await advance(5000);
+    await act(async () => result.current.retrySave());
+    expect(result.current.phase).toBe('saved');
+
+    expect(onComplete).toHaveBeenCalledTimes(2);
+    const [[, first], [, second]] = onComplete.mock.calls;
+    expect(second.id).toBe(first.id);
+    expect(second.completedAt).toBe(first.completedAt);
+  });
+
+  it('uses a new measurement ID for the next start', async () => {
+    const { result, client, onComplete } = renderSession();
+    client.fetchESPData.mockResolvedValue(finished());
+
+    await act(async () => { await result.current.start(); });
+    await advance(POLL_MS);
+    await act(async () => { await result.current.start(); });
+    await advance(POLL_MS);
+
+    expect(onComplete).toHaveBeenCalledTimes(2);
+    expect(onComplete.mock.calls[1][1].id).not.toBe(onComplete.mock.calls[0][1].id);
+  });
+});
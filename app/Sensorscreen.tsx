@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import {
   View,
   Text,
@@ -12,16 +12,50 @@ import {
   Easing,
 } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Network from "expo-network";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { collection, addDoc } from "firebase/firestore";
-import { db, auth } from "../firebase";
-import { fetchESPData, startMeasurement, cancelMeasurement, ESPData } from "../esp";
-import { assess, isReadingValid } from "./assessment";
+import { auth } from "../firebase";
+import {
+  discoverDevices,
+  subnetOf,
+  windowReadings,
+  fetchDeviceInfo,
+  checkCompatibility,
+  describeESPError,
+  describeHealth,
+  signalLevel,
+  ESPData,
+  ESPError,
+  DeviceInfo,
+  DiscoveredDevice,
+} from "../esp";
+import {
+  Device,
+  subscribeDevices,
+  addDevice,
+  markDeviceSeen,
+  defaultDevice,
+  formatLastSeen,
+} from "../devices";
+import { resolveDeviceAuth, forgetDeviceToken } from "../device-tokens";
+import { PairingCard } from "../components/pairing-card";
+import { BaselineChange } from "../components/baseline-change";
+import { MeasurementIdentity, useMeasurementSession } from "../hooks/use-measurement-session";
+import { useOutbox } from "../hooks/use-outbox";
+import { enqueueRecord, flushOutbox, pendingFor } from "../outbox";
+import { MeasurementRecord, normaliseStatus, Patient } from "../repositories";
+import { useRepositories } from "../hooks/use-repositories";
+import {
+  assess,
+  ASSESSMENT_VERSION,
+  compareToBaseline,
+  CONFIDENCE_STYLES,
+  isReadingValid,
+  readingQuality,
+} from "./assessment";
 import { styles } from "./styles";
 
-// ── Types ──────────────────────────────────────────────────────────────────────
-
-type SaveState = "idle" | "saving" | "saved" | "skipped" | "error";
+const SIGNAL_COLORS = ["#dc2626", "#ea580c", "#d97706", "#16a34a"];
 
 // ── Component ──────────────────────────────────────────────────────────────────
 
@@ -33,33 +67,131 @@ export default function SensorScreen() {
   const router = useRouter();
 
   const [deviceIP, setDeviceIP] = useState("192.168.1.50");
-  const [data, setData] = useState<ESPData | null>(null);
-  const [measuring, setMeasuring] = useState(false);
-  const [saveState, setSaveState] = useState<SaveState>("idle");
   const [error, setError] = useState("");
+  const [registry, setRegistry] = useState<Device[]>([]);
+  const [discovered, setDiscovered] = useState<DiscoveredDevice[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [manualEntry, setManualEntry] = useState(false);
+  const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [pairing, setPairing] = useState<{ deviceId: string; repair: boolean } | null>(null);
+  const [savedRecordId, setSavedRecordId] = useState<string | null>(null);
+  // Target ranges for the assessment — defaults until the patient has loaded
+  const [patient, setPatient] = useState<Patient | null>(null);
+  // Earlier readings, for the change from the patient's baseline
+  const [history, setHistory] = useState<MeasurementRecord[]>([]);
+  const { patients, records } = useRepositories();
+  const outbox = useOutbox();
 
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const pulseLoop = useRef<Animated.CompositeAnimation | null>(null);
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Aborts the device check and network scan when the screen goes away
+  const screenAbort = useRef<AbortController | null>(null);
+
+  // Per-patient IP from before the shared device registry existed
+  const LEGACY_IP_KEY = `device_ip_${patientId}`;
 
-  const IP_KEY = `device_ip_${patientId}`;
+  const selectedDevice = registry.find((d) => d.ip === deviceIP) ?? null;
+
+  // Stable across renders, so the device subscription below isn't redone on every render
+  const handleScan = useCallback(async () => {
+    setScanning(true);
+    setDiscovered([]);
+    setError("");
+    try {
+      const subnet = subnetOf(await Network.getIpAddressAsync());
+      if (!subnet) {
+        setError("Connect the phone to the device's Wi-Fi network to scan.");
+        return;
+      }
+      const found = await discoverDevices(subnet, {
+        onFound: (device) => setDiscovered((prev) => [...prev, device]),
+        signal: screenAbort.current?.signal,
+      });
+      setDiscovered(found);
+      if (found.length === 0) {
+        setError("No devices found. Enter the IP shown on the device screen instead.");
+        setManualEntry(true);
+      } else {
+        setDeviceIP((current) => (found.some((d) => d.ip === current) ? current : found[0].ip));
+      }
+    } catch (err) {
+      if (err instanceof ESPError && err.kind === "aborted") return;
+      setError("Network scan failed. Enter the device IP manually.");
+      setManualEntry(true);
+    } finally {
+      setScanning(false);
+    }
+  }, []);
 
   useEffect(() => {
-    AsyncStorage.getItem(IP_KEY).then((storedIP) => {
-      if (storedIP) setDeviceIP(storedIP);
-    });
+    const migrateLegacyIP = async (uid: string) => {
+      const storedIP = await AsyncStorage.getItem(LEGACY_IP_KEY);
+      if (!storedIP) {
+        handleScan();
+        return;
+      }
+      setDeviceIP(storedIP);
+      try {
+        await addDevice(uid, { name: "Oximeter", ip: storedIP, isDefault: true });
+        await AsyncStorage.removeItem(LEGACY_IP_KEY);
+      } catch {}
+    };
+
+    screenAbort.current = new AbortController();
+    const uid = auth.currentUser?.uid;
+    let initialised = false;
+    const unsubscribe = uid
+      ? subscribeDevices(uid, (list, fromCache) => {
+          setRegistry(list);
+          if (initialised) return;
+          const preferred = defaultDevice(list);
+          if (preferred) {
+            initialised = true;
+            setDeviceIP(preferred.ip);
+            return;
+          }
+          // An empty cache says nothing about the server — migrating now could add the device twice
+          if (fromCache) return;
+          initialised = true;
+          migrateLegacyIP(uid);
+        })
+      : undefined;
     return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
+      unsubscribe?.();
       pulseLoop.current?.stop();
+      screenAbort.current?.abort();
     };
-  }, []);
+  }, [LEGACY_IP_KEY, handleScan]);
+
+  useEffect(() => {
+    const uid = auth.currentUser?.uid;
+    if (!uid || !patientId) return;
+    patients.get(uid, patientId).then(setPatient).catch((err) => console.error("Failed to load patient:", err));
+  }, [patients, patientId]);
 
-  const handleIPChange = (value: string) => {
-    setDeviceIP(value);
-    AsyncStorage.setItem(IP_KEY, value);
+  // Reloaded after each save so a second measurement sees the first
+  useEffect(() => {
+    const uid = auth.currentUser?.uid;
+    if (!uid || !patientId) return;
+    records.list(uid, patientId).then(setHistory).catch((err) => console.error("Failed to load history:", err));
+  }, [records, patientId, savedRecordId]);
+
+  const handleSaveDevice = async (ip: string) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    try {
+      await addDevice(uid, {
+        name: `Oximeter ${ip.split(".").pop()}`,
+        ip,
+        isDefault: registry.length === 0,
+      });
+    } catch {
+      setError("Couldn't save the device. Check your internet connection.");
+    }
   };
 
-  const startPulse = () => {
+  const startPulse = useCallback(() => {
     pulseLoop.current = Animated.loop(
       Animated.sequence([
         Animated.timing(pulseAnim, { toValue: 1.08, duration: 500, easing: Easing.inOut(Easing.ease), useNativeDriver: true }),
@@ -67,100 +199,174 @@ export default function SensorScreen() {
       ])
     );
     pulseLoop.current.start();
-  };
+  }, [pulseAnim]);
 
-  const stopPulse = () => {
+  const stopPulse = useCallback(() => {
     pulseLoop.current?.stop();
     Animated.timing(pulseAnim, { toValue: 1, duration: 200, useNativeDriver: true }).start();
+  }, [pulseAnim]);
+
+  // The reading goes into the local outbox first, so it's kept even without an
+  // internet connection; the outbox writes it to Firestore as soon as it can.
+  // The measurement ID doubles as the document ID, so saving again is harmless.
+  const saveRecord = async (finalData: ESPData, measurement: MeasurementIdentity) => {
+    if (!auth.currentUser || !patientId) throw new Error("Not signed in");
+    const { severity } = assess(finalData.heartRate, finalData.spo2, { ranges: patient?.ranges, age: patient?.age });
+    const readings = windowReadings(finalData);
+    const { score } = readingQuality({ ...finalData, readings });
+    await enqueueRecord({
+      id: measurement.id,
+      uid: auth.currentUser.uid,
+      patientId,
+      record: {
+        heartRate: finalData.heartRate,
+        spo2: finalData.spo2,
+        status: normaliseStatus(finalData.status, finalData.heartRate, finalData.spo2),
+        severity,
+        assessmentVersion: ASSESSMENT_VERSION,
+        quality: score,
+        totalSamples: finalData.totalSamples,
+        hrValid: finalData.hrValid,
+        spo2Valid: finalData.spo2Valid,
+        readings,
+        deviceId: deviceInfo?.deviceId ?? null,
+        firmwareVersion: deviceInfo?.firmwareVersion ?? null,
+        measuredAt: measurement.completedAt.toISOString(),
+      },
+    });
+    setSavedRecordId(measurement.id);
+    flushOutbox().catch((err) => console.warn("[Outbox] Flush failed:", err));
   };
 
-  const autoSave = async (finalData: ESPData) => {
-    if (!auth.currentUser || !patientId) return;
+  const session = useMeasurementSession({
+    deviceIP,
+    patientName: patientName as string,
+    onComplete: saveRecord,
+    isValid: isReadingValid,
+  });
+  const { data, phase, progress, active: measuring } = session;
 
-    if (!isReadingValid(finalData)) {
-      setSaveState("skipped");
-      return;
-    }
+  useEffect(() => {
+    if (measuring) startPulse();
+    else stopPulse();
+  }, [measuring, startPulse, stopPulse]);
 
-    setSaveState("saving");
-    try {
-      await addDoc(
-        collection(db, "users", auth.currentUser.uid, "patients", patientId, "records"),
-        {
-          heartRate: finalData.heartRate,
-          spo2: finalData.spo2,
-          status: finalData.status,
-          totalSamples: finalData.totalSamples,
-          hrValid: finalData.hrValid,
-          spo2Valid: finalData.spo2Valid,
-          createdAt: new Date(),
-        }
-      );
-      setSaveState("saved");
-    } catch {
-      setSaveState("error");
-    }
-  };
+  // The device stopped accepting our token — drop it and offer to pair again
+  const pairedDeviceId = deviceInfo?.deviceId;
+  useEffect(() => {
+    if (session.failure !== "unauthorized" || !pairedDeviceId) return;
+    forgetDeviceToken(pairedDeviceId).catch(() => {});
+    setPairing({ deviceId: pairedDeviceId, repair: true });
+  }, [session.failure, pairedDeviceId]);
 
-  const pollData = async () => {
-    try {
-      const res = await fetchESPData(deviceIP);
-      setData(res);
-      setError("");
-      if (!res.running && res.totalSamples > 0) stopMeasure(res);
-    } catch {
-      setError("Cannot reach device. Check the IP address.");
-    }
-  };
+  useEffect(() => setPairing(null), [deviceIP]);
 
+  // Version handshake first — an incompatible device never gets /start.
+  // Devices with pairing also need a token before they'll take a measurement.
   const handleStart = async () => {
     setError("");
-    setSaveState("idle");
-    setData(null);
-    setMeasuring(true);
-    startPulse();
+    setPairing(null);
+    setChecking(true);
+    let info: DeviceInfo;
+    let token: string | null = null;
     try {
-      await startMeasurement(deviceIP, patientName as string);
-    } catch {
-      setError("Failed to start device. Check IP address.");
-      setMeasuring(false);
-      stopPulse();
+      info = await fetchDeviceInfo(deviceIP, { signal: screenAbort.current?.signal });
+      const compatibility = checkCompatibility(info);
+      if (!compatibility.ok) {
+        setError(compatibility.message);
+        return;
+      }
+      const deviceAuth = await resolveDeviceAuth(info);
+      if (deviceAuth.status === "unpaired") {
+        setPairing({ deviceId: deviceAuth.deviceId, repair: false });
+        return;
+      }
+      if (deviceAuth.status === "paired") token = deviceAuth.token;
+    } catch (err) {
+      if (!(err instanceof ESPError && err.kind === "aborted")) setError(describeESPError(err));
       return;
+    } finally {
+      setChecking(false);
     }
-    intervalRef.current = setInterval(pollData, 3000);
-  };
+    setDeviceInfo(info);
 
-  const stopMeasure = (finalData?: ESPData) => {
-    if (intervalRef.current) { clearInterval(intervalRef.current); intervalRef.current = null; }
-    setMeasuring(false);
-    stopPulse();
-    if (finalData) {
-      setData(finalData);
-      autoSave(finalData);
+    const started = await session.start(token);
+    if (started && selectedDevice && auth.currentUser) {
+      markDeviceSeen(auth.currentUser.uid, selectedDevice.id).catch(() => {});
     }
   };
 
-  const handleCancel = async () => {
-    stopMeasure();
-    try { await cancelMeasurement(deviceIP); } catch {}
-    setData(null);
-    setSaveState("idle");
-  };
-
   // ── Derived state ────────────────────────────────────────────────────────────
 
   const assessment = data && isReadingValid(data)
-    ? assess(data.heartRate, data.spo2)
+    ? assess(data.heartRate, data.spo2, { ranges: patient?.ranges, age: patient?.age })
+    : null;
+
+  // Only meaningful once every window is in
+  const quality = assessment && data && !measuring
+    ? readingQuality({ ...data, readings: windowReadings(data) })
     : null;
+  const lowConfidence = quality?.confidence === "low";
+
+  // The reading on screen is left out of its own baseline once it's saved
+  const baselineReport = (() => {
+    if (!assessment || !data || measuring) return null;
+    const earlier = [
+      ...history,
+      ...pendingFor(outbox, patientId)
+        .filter((e) => !history.some((r) => r.id === e.id))
+        .map((e) => ({ ...e.record, measuredAt: new Date(e.record.measuredAt), id: e.id })),
+    ].filter((r) => r.id !== savedRecordId);
+    return compareToBaseline({ ...data, readings: windowReadings(data), measuredAt: new Date() }, earlier);
+  })();
+
+  const saveFailed = phase === "failed" && session.failure === "save";
+  const queuedSave = phase === "saved" ? outbox.find((e) => e.id === savedRecordId) : undefined;
+  const savePending = !!queuedSave && !queuedSave.failed;
 
   const saveInfo: { text: string; color: string } | null = (() => {
-    switch (saveState) {
-      case "saving":  return { text: "💾  Saving to records…",              color: "#6366f1" };
-      case "saved":   return { text: "✓  Saved to records automatically",   color: "#16a34a" };
-      case "skipped": return { text: "⚠️  Not saved — invalid reading",      color: "#d97706" };
-      case "error":   return { text: "✕  Save failed — tap to retry",       color: "#dc2626" };
-      default:        return null;
-    }
+    if (phase === "completing") return { text: "💾  Saving to records…",            color: "#6366f1" };
+    if (queuedSave?.failed)     return { text: `✕  Not synced — ${queuedSave.lastError ?? "rejected by the server"}`, color: "#dc2626" };
+    if (savePending)            return { text: "⏳  Saved on this phone — will sync when online", color: "#d97706" };
+    if (phase === "saved")      return { text: "✓  Saved to records automatically", color: "#16a34a" };
+    if (saveFailed)             return { text: "✕  Save failed — tap to retry",     color: "#dc2626" };
+    if (phase === "failed" && session.failure === "invalid")
+                                return { text: "⚠️  Not saved — invalid reading",    color: "#d97706" };
+    return null;
+  })();
+
+  // Save problems are shown in the save row; start/poll problems in the error card
+  const displayError =
+    error ||
+    (phase === "measuring" ||
+    session.failure === "start" ||
+    session.failure === "aborted" ||
+    session.failure === "conflict"
+      ? session.error
+      : "");
+
+  // Progress — sampleIndex comes from /data, completed windows from the live stream
+  const totalWindows = data?.totalSamples ?? progress?.total ?? 0;
+  const currentWindow = data?.sampleIndex ?? 0;
+  const completedWindows = Math.max(progress?.index ?? 0, currentWindow > 0 ? currentWindow - 1 : 0);
+  const showProgress = totalWindows > 0 && (currentWindow > 0 || completedWindows > 0);
+  const fingerRemoved = measuring && data?.fingerPresent === false;
+
+  // Picker status for a device found on the network
+  const liveStatus = (device: DiscoveredDevice) => {
+    if (!device.data) return "Pairing needed";
+    if (device.data.running && device.data.patientName) return `Busy with ${device.data.patientName}`;
+    return device.data.status;
+  };
+
+  // Connection badge — shown once the session has talked to the device
+  const signal = signalLevel(session.health);
+
+  const measuringText = (() => {
+    if (fingerRemoved) return "Waiting for finger…";
+    if (currentWindow > 0) return `Sample ${currentWindow} of ${totalWindows}… keep finger still`;
+    if (progress) return `Sample ${progress.index} of ${progress.total}… keep finger still`;
+    return "Measuring… keep finger still";
   })();
 
   return (
@@ -179,22 +385,125 @@ export default function SensorScreen() {
           </TouchableOpacity>
         </View>
 
-        {/* Device IP Card */}
+        {/* Device Picker Card */}
         <View style={styles.card}>
-          <Text style={styles.cardLabel}>Device IP Address</Text>
-          <TextInput
-            value={deviceIP}
-            onChangeText={handleIPChange}
-            style={styles.ipInput}
-            placeholder="192.168.1.50"
-            placeholderTextColor="#94a3b8"
-            editable={!measuring}
-          />
+          <View style={styles.deviceHeaderRow}>
+            <Text style={[styles.cardLabel, { marginBottom: 0 }]}>Device</Text>
+            <View style={styles.deviceHeaderActions}>
+              <TouchableOpacity onPress={() => router.push("/devices")} disabled={measuring}>
+                <Text style={[styles.linkText, measuring && { opacity: 0.4 }]}>Manage</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleScan} disabled={scanning || measuring}>
+                <Text style={[styles.linkText, (scanning || measuring) && { opacity: 0.4 }]}>
+                  {scanning ? "Scanning…" : "↻  Scan"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {registry.map((device) => {
+            const selected = device.ip === deviceIP;
+            const live = discovered.find((d) => d.ip === device.ip);
+            return (
+              <TouchableOpacity
+                key={device.id}
+                style={[styles.deviceRow, selected && styles.deviceRowActive]}
+                onPress={() => setDeviceIP(device.ip)}
+                disabled={measuring}
+                activeOpacity={0.8}
+              >
+                <View>
+                  <Text style={[styles.deviceIP, selected && styles.deviceIPActive]}>
+                    {selected ? "●  " : "○  "}{device.name}
+                  </Text>
+                  <Text style={styles.deviceMeta}>{device.ip}</Text>
+                </View>
+                <Text style={styles.deviceStatus}>
+                  {live ? liveStatus(live) : formatLastSeen(device.lastSeen)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {discovered
+            .filter((device) => !registry.some((d) => d.ip === device.ip))
+            .map((device) => {
+              const selected = device.ip === deviceIP;
+              return (
+                <TouchableOpacity
+                  key={device.ip}
+                  style={[styles.deviceRow, selected && styles.deviceRowActive]}
+                  onPress={() => setDeviceIP(device.ip)}
+                  disabled={measuring}
+                  activeOpacity={0.8}
+                >
+                  <View>
+                    <Text style={[styles.deviceIP, selected && styles.deviceIPActive]}>
+                      {selected ? "●  " : "○  "}{device.ip}
+                    </Text>
+                    <Text style={styles.deviceMeta}>{liveStatus(device)}</Text>
+                  </View>
+                  <TouchableOpacity onPress={() => handleSaveDevice(device.ip)} disabled={measuring}>
+                    <Text style={styles.linkText}>＋ Save</Text>
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })}
+
+          {scanning && (
+            <View style={styles.measuringRow}>
+              <ActivityIndicator size="small" color="#6366f1" />
+              <Text style={styles.measuringText}>Looking for devices on this network…</Text>
+            </View>
+          )}
+
+          {manualEntry ? (
+            <>
+              <TextInput
+                value={deviceIP}
+                onChangeText={setDeviceIP}
+                style={[styles.ipInput, { marginTop: 10 }]}
+                placeholder="192.168.1.50"
+                placeholderTextColor="#94a3b8"
+                editable={!measuring}
+              />
+              {!selectedDevice && deviceIP.trim() !== "" && (
+                <TouchableOpacity onPress={() => handleSaveDevice(deviceIP.trim())} disabled={measuring}>
+                  <Text style={[styles.linkText, { marginTop: 10 }]}>＋ Save to my devices</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          ) : (
+            <TouchableOpacity onPress={() => setManualEntry(true)} disabled={measuring}>
+              <Text style={[styles.linkText, { marginTop: 10 }]}>Enter IP manually</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Vitals Card */}
         <View style={styles.card}>
-          <Text style={styles.cardLabel}>Live Readings</Text>
+          <View style={styles.deviceHeaderRow}>
+            <Text style={[styles.cardLabel, { marginBottom: 0 }]}>Live Readings</Text>
+            {signal !== null && (
+              <View style={styles.healthBadge}>
+                <View style={styles.healthBars}>
+                  {[1, 2, 3].map((bar) => (
+                    <View
+                      key={bar}
+                      style={[
+                        styles.healthBar,
+                        { height: 4 + bar * 3 },
+                        { backgroundColor: bar <= signal ? SIGNAL_COLORS[signal] : "#e2e8f0" },
+                      ]}
+                    />
+                  ))}
+                </View>
+                <Text style={[styles.healthText, { color: SIGNAL_COLORS[signal] }]}>
+                  {describeHealth(session.health)}
+                </Text>
+              </View>
+            )}
+          </View>
 
           <View style={styles.hrRow}>
             <Animated.View style={[styles.hrOrb, { transform: [{ scale: pulseAnim }] }]}>
@@ -217,10 +526,25 @@ export default function SensorScreen() {
             </View>
           </View>
 
+          {fingerRemoved && (
+            <View style={styles.fingerWarning}>
+              <Text style={styles.fingerWarningTitle}>☝️  Finger removed</Text>
+              <Text style={styles.fingerWarningText}>
+                Place your finger back on the sensor and keep it still. Lifting it while sampling stops the measurement.
+              </Text>
+            </View>
+          )}
+
+          {measuring && showProgress && (
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${(completedWindows / totalWindows) * 100}%` }]} />
+            </View>
+          )}
+
           {measuring && (
             <View style={styles.measuringRow}>
               <ActivityIndicator size="small" color="#6366f1" />
-              <Text style={styles.measuringText}>Measuring… keep finger still</Text>
+              <Text style={styles.measuringText}>{measuringText}</Text>
             </View>
           )}
         </View>
@@ -239,6 +563,24 @@ export default function SensorScreen() {
                 <Text style={styles.urgentText}>⚡ Immediate medical attention recommended</Text>
               </View>
             )}
+            {baselineReport && <BaselineChange report={baselineReport} embedded />}
+          </View>
+        )}
+
+        {/* Confidence */}
+        {quality && (
+          <View style={[styles.qualityCard, lowConfidence && styles.qualityCardLow]}>
+            <Text style={[styles.qualityLabel, { color: CONFIDENCE_STYLES[quality.confidence].color }]}>
+              {CONFIDENCE_STYLES[quality.confidence].icon}  {CONFIDENCE_STYLES[quality.confidence].name}  ·  {quality.score}/100
+            </Text>
+            {quality.confidence !== "high" && quality.reasons.map((reason) => (
+              <Text key={reason} style={styles.qualityReason}>{reason}</Text>
+            ))}
+            {lowConfidence && (
+              <Text style={styles.qualityPrompt}>
+                This reading may not be reliable. Keep your finger still on the sensor and measure again before acting on it.
+              </Text>
+            )}
           </View>
         )}
 
@@ -246,10 +588,10 @@ export default function SensorScreen() {
         {saveInfo && (
           <TouchableOpacity
             style={[styles.saveStatusRow, { borderColor: saveInfo.color + "44", backgroundColor: saveInfo.color + "11" }]}
-            onPress={saveState === "error" ? () => data && autoSave(data) : undefined}
-            activeOpacity={saveState === "error" ? 0.7 : 1}
+            onPress={saveFailed ? session.retrySave : undefined}
+            activeOpacity={saveFailed ? 0.7 : 1}
           >
-            {saveState === "saving" && (
+            {phase === "completing" && (
               <ActivityIndicator size="small" color={saveInfo.color} style={{ marginRight: 8 }} />
             )}
             <Text style={[styles.saveStatusText, { color: saveInfo.color }]}>
@@ -259,19 +601,37 @@ export default function SensorScreen() {
         )}
 
         {/* Error */}
-        {error !== "" && (
+        {displayError !== "" && (
           <View style={styles.errorCard}>
-            <Text style={styles.errorText}>⚠️  {error}</Text>
+            <Text style={styles.errorText}>⚠️  {displayError}</Text>
           </View>
         )}
 
+        {/* Pairing */}
+        {pairing && (
+          <PairingCard
+            deviceIP={deviceIP}
+            deviceId={pairing.deviceId}
+            repair={pairing.repair}
+            onPaired={handleStart}
+            onCancel={() => setPairing(null)}
+          />
+        )}
+
         {/* Action Buttons */}
-        {!measuring ? (
-          <TouchableOpacity style={styles.primaryButton} onPress={handleStart} activeOpacity={0.85}>
-            <Text style={styles.primaryButtonText}>▶  Start Measurement</Text>
+        {pairing ? null : !measuring ? (
+          <TouchableOpacity
+            style={[styles.primaryButton, checking && { opacity: 0.7 }]}
+            onPress={handleStart}
+            disabled={checking}
+            activeOpacity={0.85}
+          >
+            <Text style={styles.primaryButtonText}>
+              {checking ? "Checking device…" : lowConfidence ? "↻  Measure Again" : "▶  Start Measurement"}
+            </Text>
           </TouchableOpacity>
         ) : (
-          <TouchableOpacity style={styles.secondaryButton} onPress={handleCancel} activeOpacity={0.85}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={session.cancel} activeOpacity={0.85}>
             <Text style={styles.secondaryButtonText}>⏹  Cancel</Text>
           </TouchableOpacity>
         )}
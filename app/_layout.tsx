@@ -1,5 +1,7 @@
 import { Stack } from "expo-router";
+import { useOutboxSync } from "../hooks/use-outbox";
 
 export default function Layout() {
+  useOutboxSync();
   return <Stack screenOptions={{ headerShown: false }} />;
-}
\ No newline at end of file
+}
@@ -9,23 +9,29 @@ import {
   Platform,
   SafeAreaView,
 } from "react-native";
-import { addDoc, collection } from "firebase/firestore";
-import { db, auth } from "../firebase";
+import { auth } from "../firebase";
 import { useRouter } from "expo-router";
+import { useRepositories } from "../hooks/use-repositories";
 
 export default function AddPatient() {
   const [name, setName] = useState("");
+  const [age, setAge] = useState("");
   const router = useRouter();
+  const { patients } = useRepositories();
 
   const addPatient = async () => {
     if (!name.trim()) {
       alert("Please enter a patient name.");
       return;
     }
+    // Optional — it picks the heart-rate ranges for children and older adults
+    const years = age.trim() === "" ? null : Number(age);
+    if (years !== null && !(Number.isInteger(years) && years >= 0 && years <= 130)) {
+      alert("Please enter the age in whole years (0 for a baby under one).");
+      return;
+    }
     try {
-      await addDoc(collection(db, "users", auth.currentUser!.uid, "patients"), {
-        name: name.trim(),
-      });
+      await patients.add(auth.currentUser!.uid, { name: name.trim(), age: years });
       router.back();
     } catch (error: any) {
       alert(error.message);
@@ -53,6 +59,16 @@ export default function AddPatient() {
           value={name}
         />
 
+        <TextInput
+          placeholder=" Age in years (optional)"
+          placeholderTextColor="#999"
+          style={styles.input}
+          onChangeText={(v) => setAge(v.replace(/[^\d]/g, ""))}
+          value={age}
+          keyboardType="number-pad"
+          maxLength={3}
+        />
+
         <TouchableOpacity style={styles.primaryButton} onPress={addPatient}>
           <Text style={styles.primaryButtonText}>Save</Text>
         </TouchableOpacity>
@@ -1,8 +1,15 @@
-import { ESPData } from "../esp";
+import { ESPData, WindowReading } from "../esp";
 
 // ── Types ──────────────────────────────────────────────────────────────────────
 
+// The one scale every reading is graded on, mildest first. The device sends
+// its own Normal/Warning/Critical with fixed cut-offs; the app doesn't use it.
+export type Severity = "normal" | "caution" | "alert" | "critical";
+
+export const SEVERITIES: Severity[] = ["normal", "caution", "alert", "critical"];
+
 export type Assessment = {
+  severity: Severity;
   label: string;
   detail: string;
   color: string;
@@ -11,51 +18,397 @@ export type Assessment = {
   urgent: boolean;
 };
 
+export type RangePreset = "adult" | "copd" | "postop" | "custom";
+
+// Per-patient targets and alert thresholds. Readings inside the target ranges
+// are normal; below an alert threshold they're urgent, below a critical one an
+// emergency.
+export type TargetRanges = {
+  preset: RangePreset;
+  spo2Min: number;
+  spo2Max: number;
+  spo2Alert: number;
+  spo2Critical: number;
+  hrMin: number;
+  hrMax: number;
+  hrCriticalLow: number;
+  hrCriticalHigh: number;
+};
+
+// What assess() knows about the patient — everything is optional, so an
+// unknown patient gets the default adult ranges
+export type PatientProfile = {
+  ranges?: TargetRanges | null;
+  // Years — under 1 counts as an infant
+  age?: number | null;
+};
+
+// Resting heart-rate bands by age, following the APLS reference ranges for
+// children. Adults 18–64 have no band: their ranges come from the preset.
+// Bands only adjust the default adult preset — see rangesFor().
+export type HeartRateBand = {
+  label: string;
+  minAge: number;  // inclusive, years
+  maxAge: number;  // exclusive
+  hrMin: number;
+  hrMax: number;
+  hrCriticalLow: number;
+  hrCriticalHigh: number;
+};
+
+// ── Presets ────────────────────────────────────────────────────────────────────
+
+export const RANGE_PRESETS: { [preset in Exclude<RangePreset, "custom">]: TargetRanges & { label: string } } = {
+  adult: {
+    label: "Default adult",
+    preset: "adult",
+    spo2Min: 96, spo2Max: 100, spo2Alert: 94, spo2Critical: 90,
+    hrMin: 60, hrMax: 100, hrCriticalLow: 40, hrCriticalHigh: 150,
+  },
+  // BTS guidance for patients at risk of hypercapnic respiratory failure:
+  // target 88–92%, and too much oxygen is a risk as well
+  copd: {
+    label: "COPD",
+    preset: "copd",
+    spo2Min: 88, spo2Max: 92, spo2Alert: 86, spo2Critical: 84,
+    hrMin: 60, hrMax: 100, hrCriticalLow: 40, hrCriticalHigh: 140,
+  },
+  // Tighter alerting while recovering from surgery — tachycardia and
+  // desaturation are early signs of complications
+  postop: {
+    label: "Post-op",
+    preset: "postop",
+    spo2Min: 94, spo2Max: 100, spo2Alert: 92, spo2Critical: 90,
+    hrMin: 60, hrMax: 100, hrCriticalLow: 45, hrCriticalHigh: 130,
+  },
+};
+
+export const HEART_RATE_BANDS: HeartRateBand[] = [
+  { label: "infant",           minAge: 0,  maxAge: 1,        hrMin: 100, hrMax: 160, hrCriticalLow: 80, hrCriticalHigh: 200 },
+  { label: "toddler",          minAge: 1,  maxAge: 3,        hrMin: 90,  hrMax: 150, hrCriticalLow: 70, hrCriticalHigh: 190 },
+  { label: "preschool child",  minAge: 3,  maxAge: 6,        hrMin: 80,  hrMax: 140, hrCriticalLow: 60, hrCriticalHigh: 180 },
+  { label: "school-age child", minAge: 6,  maxAge: 12,       hrMin: 70,  hrMax: 120, hrCriticalLow: 55, hrCriticalHigh: 160 },
+  { label: "teenager",         minAge: 12, maxAge: 18,       hrMin: 60,  hrMax: 100, hrCriticalLow: 45, hrCriticalHigh: 150 },
+  // Resting rates in the 50s are common and usually benign (often on beta
+  // blockers); fast rates are tolerated less well
+  { label: "older adult",      minAge: 65, maxAge: Infinity, hrMin: 55,  hrMax: 100, hrCriticalLow: 40, hrCriticalHigh: 130 },
+];
+
+export const heartRateBandFor = (age: number | null | undefined): HeartRateBand | null =>
+  age === null || age === undefined || !isFinite(age) || age < 0
+    ? null
+    : HEART_RATE_BANDS.find((b) => age >= b.minAge && age < b.maxAge) ?? null;
+
+export const presetRanges = (preset: Exclude<RangePreset, "custom">): TargetRanges => {
+  const { label, ...ranges } = RANGE_PRESETS[preset];
+  return ranges;
+};
+
+export const DEFAULT_RANGES = presetRanges("adult");
+
+// The age band that replaces the heart-rate part of these ranges. Only the
+// default adult preset is adjusted: COPD and post-op limits, like custom ones,
+// were chosen for this patient and must never be loosened by their age.
+export const ageBandFor = (ranges: TargetRanges, age: number | null | undefined): HeartRateBand | null =>
+  ranges.preset === "adult" ? heartRateBandFor(age) : null;
+
+// The patient's ranges with the heart-rate part adjusted for age
+export const rangesFor = (profile: PatientProfile = {}): TargetRanges => {
+  const ranges = profile.ranges ?? DEFAULT_RANGES;
+  const band = ageBandFor(ranges, profile.age);
+  if (!band) return ranges;
+  const { hrMin, hrMax, hrCriticalLow, hrCriticalHigh } = band;
+  return { ...ranges, hrMin, hrMax, hrCriticalLow, hrCriticalHigh };
+};
+
+// Problems a user can fix in the editor, or null when the ranges make sense
+export function validateRanges(r: TargetRanges): string | null {
+  const values = [r.spo2Min, r.spo2Max, r.spo2Alert, r.spo2Critical, r.hrMin, r.hrMax, r.hrCriticalLow, r.hrCriticalHigh];
+  if (values.some((v) => typeof v !== "number" || !isFinite(v))) return "Fill in every value.";
+  if (r.spo2Max > 100 || r.spo2Critical < 50) return "SpO₂ values must be between 50 and 100%.";
+  if (!(r.spo2Critical <= r.spo2Alert && r.spo2Alert <= r.spo2Min && r.spo2Min <= r.spo2Max)) {
+    return "SpO₂ must go critical ≤ alert ≤ target low ≤ target high.";
+  }
+  if (r.hrCriticalLow < 20 || r.hrCriticalHigh > 250) return "Heart rate values must be between 20 and 250 bpm.";
+  if (!(r.hrCriticalLow <= r.hrMin && r.hrMin <= r.hrMax && r.hrMax <= r.hrCriticalHigh)) {
+    return "Heart rate must go critical low ≤ target low ≤ target high ≤ critical high.";
+  }
+  return null;
+}
+
 // ── Clinical assessment ────────────────────────────────────────────────────────
 
-export function assess(hr: number, spo2: number): Assessment {
-  if (spo2 < 90) return {
-    label: "⛔ Critical — Emergency",
-    detail: "Dangerously low oxygen saturation. Seek emergency care immediately.",
-    color: "#dc2626", bg: "#fef2f2", border: "#fecaca", urgent: true,
-  };
-  if (spo2 < 94) return {
-    label: "🔴 High Alert",
-    detail: "Low blood oxygen. Doctor visit required urgently.",
-    color: "#dc2626", bg: "#fef2f2", border: "#fecaca", urgent: true,
-  };
-  if (hr > 150) return {
-    label: "⛔ Critical — Emergency",
-    detail: "Severely elevated heart rate. Seek emergency care immediately.",
-    color: "#dc2626", bg: "#fef2f2", border: "#fecaca", urgent: true,
-  };
-  if (hr < 40) return {
-    label: "⛔ Critical — Emergency",
-    detail: "Dangerously low heart rate. Seek emergency care immediately.",
-    color: "#dc2626", bg: "#fef2f2", border: "#fecaca", urgent: true,
-  };
-  if (hr > 100) return {
-    label: "🟡 Elevated Heart Rate",
-    detail: "Heart rate above normal range (60–100 bpm). Monitor closely, consult doctor if persistent.",
-    color: "#d97706", bg: "#fffbeb", border: "#fde68a", urgent: false,
-  };
-  if (hr < 60) return {
-    label: "🟡 Low Heart Rate",
-    detail: "Heart rate below normal range (60–100 bpm). Consult doctor if feeling dizzy or unwell.",
-    color: "#d97706", bg: "#fffbeb", border: "#fde68a", urgent: false,
-  };
-  if (spo2 < 96) return {
-    label: "🟡 Monitor Closely",
-    detail: "Slightly low oxygen saturation. Rest and re-measure. See doctor if worsening.",
-    color: "#d97706", bg: "#fffbeb", border: "#fde68a", urgent: false,
-  };
-  return {
-    label: "🟢 Normal",
-    detail: "Heart rate and oxygen saturation are within healthy range.",
-    color: "#16a34a", bg: "#f0fdf4", border: "#bbf7d0", urgent: false,
-  };
+// Bump whenever assess() would grade the same reading differently, so records
+// graded by an older version are re-assessed when shown
+export const ASSESSMENT_VERSION = 2;
+
+export const SEVERITY_STYLES: { [severity in Severity]: { name: string; color: string; bg: string; border: string; urgent: boolean } } = {
+  normal:   { name: "Normal",   color: "#16a34a", bg: "#f0fdf4", border: "#bbf7d0", urgent: false },
+  caution:  { name: "Caution",  color: "#d97706", bg: "#fffbeb", border: "#fde68a", urgent: false },
+  alert:    { name: "Alert",    color: "#dc2626", bg: "#fef2f2", border: "#fecaca", urgent: true },
+  critical: { name: "Critical", color: "#dc2626", bg: "#fef2f2", border: "#fecaca", urgent: true },
+};
+
+const graded = (severity: Severity, label: string, detail: string): Assessment => {
+  const { name, ...style } = SEVERITY_STYLES[severity];
+  return { severity, label, detail, ...style };
+};
+
+export function assess(hr: number, spo2: number, profile: PatientProfile = {}): Assessment {
+  const r = rangesFor(profile);
+  const band = ageBandFor(r, profile.age);
+  const spo2Target = `${r.spo2Min}–${r.spo2Max}%`;
+  const hrTarget = band ? `${r.hrMin}–${r.hrMax} bpm for a ${band.label}` : `${r.hrMin}–${r.hrMax} bpm`;
+
+  if (spo2 < r.spo2Critical) return graded("critical",
+    "⛔ Critical — Emergency",
+    "Dangerously low oxygen saturation. Seek emergency care immediately.",
+  );
+  if (spo2 < r.spo2Alert) return graded("alert",
+    "🔴 High Alert",
+    `Low blood oxygen (alert below ${r.spo2Alert}%). Doctor visit required urgently.`,
+  );
+  if (hr > r.hrCriticalHigh) return graded("critical",
+    "⛔ Critical — Emergency",
+    "Severely elevated heart rate. Seek emergency care immediately.",
+  );
+  if (hr < r.hrCriticalLow) return graded("critical",
+    "⛔ Critical — Emergency",
+    "Dangerously low heart rate. Seek emergency care immediately.",
+  );
+  if (hr > r.hrMax) return graded("caution",
+    "🟡 Elevated Heart Rate",
+    `Heart rate above target range (${hrTarget}). Monitor closely, consult doctor if persistent.`,
+  );
+  if (hr < r.hrMin) return graded("caution",
+    "🟡 Low Heart Rate",
+    `Heart rate below target range (${hrTarget}). Consult doctor if feeling dizzy or unwell.`,
+  );
+  if (spo2 < r.spo2Min) return graded("caution",
+    "🟡 Monitor Closely",
+    `Oxygen saturation slightly below target (${spo2Target}). Rest and re-measure. See doctor if worsening.`,
+  );
+  if (spo2 > r.spo2Max) return graded("caution",
+    "🟡 Above Target Range",
+    `Oxygen saturation above target (${spo2Target}). If on supplemental oxygen, check the flow rate with the care team.`,
+  );
+  return graded("normal",
+    "🟢 Normal",
+    "Heart rate and oxygen saturation are within target range.",
+  );
+}
+
+// The severity a saved reading is shown with — what the app graded it at the
+// time, or re-assessed now if it was saved before severities were stored or
+// graded by an older ASSESSMENT_VERSION
+export function recordSeverity(
+  record: { heartRate: number; spo2: number; severity?: Severity | null; assessmentVersion?: number | null },
+  profile: PatientProfile = {},
+): Severity {
+  if (record.severity && record.assessmentVersion === ASSESSMENT_VERSION) return record.severity;
+  return assess(record.heartRate, record.spo2, profile).severity;
 }
 
 export function isReadingValid(data: ESPData): boolean {
   return data.heartRate > 0 && data.spo2 > 0 && data.hrValid > 0 && data.spo2Valid > 0;
-}
\ No newline at end of file
+}
+
+// ── Reading quality ────────────────────────────────────────────────────────────
+
+export type Confidence = "high" | "medium" | "low";
+
+export type ReadingQuality = {
+  score: number;       // 0–100
+  confidence: Confidence;
+  // Why the score is low, for the user — empty when nothing stood out
+  reasons: string[];
+};
+
+// What a score is built from — a live reading or a saved record both have these
+export type QualityInput = {
+  hrValid: number;
+  spo2Valid: number;
+  totalSamples: number;
+  readings: WindowReading[] | null;
+  perfusion?: number[] | null;
+};
+
+// Scores below LOW_CONFIDENCE_BELOW ask for a re-measure and are left out of averages
+export const HIGH_CONFIDENCE_FROM = 75;
+export const LOW_CONFIDENCE_BELOW = 50;
+
+// 1 at or better than `good`, 0 at or worse than `bad`, linear between
+const scale = (value: number, good: number, bad: number) =>
+  Math.max(0, Math.min(1, (value - bad) / (good - bad)));
+
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+export const confidenceFor = (score: number): Confidence =>
+  score >= HIGH_CONFIDENCE_FROM ? "high" : score >= LOW_CONFIDENCE_BELOW ? "medium" : "low";
+
+// Weighs how many windows were valid, how well the valid ones agree and, on
+// firmware that reports it, how strong the pulse signal was. Parts that can't
+// be worked out are left out rather than guessed.
+export function readingQuality(input: QualityInput): ReadingQuality {
+  const parts: { weight: number; value: number }[] = [];
+  const reasons: string[] = [];
+  const total = Math.max(1, input.totalSamples);
+
+  const valid = Math.min(input.hrValid, input.spo2Valid);
+  parts.push({ weight: 5, value: valid / total });
+  if (valid < total) reasons.push(`Only ${valid} of ${total} sample windows gave a reading.`);
+
+  const windows = input.readings?.filter((w) => w.heartRate > 0 && w.spo2 > 0) ?? [];
+  if (windows.length >= 2) {
+    const hrSpread = spread(windows.map((w) => w.heartRate));
+    const spo2Spread = spread(windows.map((w) => w.spo2));
+    parts.push({ weight: 3, value: (scale(hrSpread, 5, 25) + scale(spo2Spread, 2, 8)) / 2 });
+    if (hrSpread > 15) reasons.push(`Heart rate varied by ${hrSpread} bpm between windows.`);
+    if (spo2Spread > 4) reasons.push(`SpO₂ varied by ${spo2Spread}% between windows.`);
+  }
+
+  const sampled = input.perfusion?.filter((pi) => pi > 0) ?? [];
+  if (sampled.length) {
+    const pi = sampled.reduce((s, v) => s + v, 0) / sampled.length;
+    parts.push({ weight: 2, value: scale(pi, 1, 0.2) });
+    if (pi < 0.5) reasons.push("The pulse signal was weak — check the finger covers the sensor.");
+  }
+
+  const weight = parts.reduce((s, p) => s + p.weight, 0);
+  const score = Math.round((100 * parts.reduce((s, p) => s + p.weight * p.value, 0)) / weight);
+  return { score, confidence: confidenceFor(score), reasons };
+}
+
+// The stored score of a saved record, or one worked out from its windows for
+// records saved before scores were stored
+export const recordQuality = (record: QualityInput & { quality?: number | null }): number =>
+  record.quality ?? readingQuality(record).score;
+
+export const CONFIDENCE_STYLES: { [confidence in Confidence]: { name: string; icon: string; color: string } } = {
+  high:   { name: "High confidence",   icon: "●", color: "#16a34a" },
+  medium: { name: "Medium confidence", icon: "◐", color: "#d97706" },
+  low:    { name: "Low confidence",    icon: "○", color: "#dc2626" },
+};
+
+// ── Personal baseline ──────────────────────────────────────────────────────────
+//
+// assess() grades a reading on its own. A patient whose SpO₂ is usually 98%
+// and is now 94% may still be in range, but it's a change worth knowing about.
+
+export type Baseline = {
+  heartRate: number;
+  spo2: number;
+  // Readings it was worked out from
+  count: number;
+};
+
+export type BaselineFlag = {
+  kind: "spo2Drop" | "heartRateChange" | "spo2Decline" | "heartRateRise";
+  message: string;
+};
+
+export type BaselineReport = {
+  // null until there are BASELINE_MIN_READINGS usable readings
+  baseline: Baseline | null;
+  spo2Change: number | null;
+  heartRateChange: number | null;
+  // Empty when nothing stands out
+  flags: BaselineFlag[];
+};
+
+// A saved or live reading — records and outbox entries both fit
+export type BaselineReading = QualityInput & {
+  heartRate: number;
+  spo2: number;
+  measuredAt: Date;
+  quality?: number | null;
+};
+
+export const BASELINE_DAYS = 14;
+export const BASELINE_MIN_READINGS = 5;
+// Changes from the baseline that are flagged
+const SPO2_DROP = 4;
+const HEART_RATE_CHANGE = 20;
+// Consecutive readings that make a trend, and how far they have to move in total
+const TREND_READINGS = 3;
+const SPO2_TREND_MIN = 2;
+const HEART_RATE_TREND_MIN = 10;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const usable = (r: BaselineReading) => confidenceFor(recordQuality(r)) !== "low";
+
+const signed = (n: number) => (n > 0 ? `+${n}` : n < 0 ? `−${-n}` : "±0");
+
+// Median of the usable readings in the BASELINE_DAYS before `before` — the
+// median, so one odd reading doesn't move it
+export function personalBaseline(history: BaselineReading[], before: Date): Baseline | null {
+  const from = before.getTime() - BASELINE_DAYS * 86400000;
+  const window = history.filter(
+    (r) => r.measuredAt.getTime() >= from && r.measuredAt.getTime() < before.getTime() && usable(r)
+  );
+  if (window.length < BASELINE_MIN_READINGS) return null;
+  return {
+    heartRate: Math.round(median(window.map((r) => r.heartRate))),
+    spo2: Math.round(median(window.map((r) => r.spo2)) * 10) / 10,
+    count: window.length,
+  };
+}
+
+// How `reading` compares with the patient's own recent readings. `history` may
+// include `reading` itself and anything after it; only earlier readings count.
+export function compareToBaseline(reading: BaselineReading, history: BaselineReading[]): BaselineReport {
+  const at = reading.measuredAt.getTime();
+  const earlier = history.filter((r) => r.measuredAt.getTime() < at);
+  const baseline = personalBaseline(earlier, reading.measuredAt);
+  const flags: BaselineFlag[] = [];
+
+  const spo2Change = baseline ? Math.round((reading.spo2 - baseline.spo2) * 10) / 10 : null;
+  const heartRateChange = baseline ? reading.heartRate - baseline.heartRate : null;
+  if (baseline && spo2Change !== null && spo2Change <= -SPO2_DROP) {
+    flags.push({
+      kind: "spo2Drop",
+      message: `SpO₂ is ${-spo2Change} points below their usual ${baseline.spo2}%.`,
+    });
+  }
+  if (baseline && heartRateChange !== null && Math.abs(heartRateChange) >= HEART_RATE_CHANGE) {
+    flags.push({
+      kind: "heartRateChange",
+      message: `Heart rate is ${Math.abs(heartRateChange)} bpm ${heartRateChange > 0 ? "above" : "below"} their usual ${baseline.heartRate} bpm.`,
+    });
+  }
+
+  // Trends don't need a baseline, just the last few usable readings
+  const recent = [
+    ...[...earlier].sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime()).filter(usable),
+    reading,
+  ].slice(-TREND_READINGS);
+  if (recent.length === TREND_READINGS) {
+    const spo2 = recent.map((r) => r.spo2);
+    const hr = recent.map((r) => r.heartRate);
+    if (spo2.every((v, i) => i === 0 || v < spo2[i - 1]) && spo2[0] - spo2[spo2.length - 1] >= SPO2_TREND_MIN) {
+      flags.push({
+        kind: "spo2Decline",
+        message: `SpO₂ has fallen on ${TREND_READINGS} readings in a row (${spo2.join("% → ")}%).`,
+      });
+    }
+    if (hr.every((v, i) => i === 0 || v > hr[i - 1]) && hr[hr.length - 1] - hr[0] >= HEART_RATE_TREND_MIN) {
+      flags.push({
+        kind: "heartRateRise",
+        message: `Heart rate has risen on ${TREND_READINGS} readings in a row (${hr.join(" → ")} bpm).`,
+      });
+    }
+  }
+
+  return { baseline, spo2Change, heartRateChange, flags };
+}
+
+// "SpO₂ −2.5  ·  HR +8 bpm" — for the change summary line
+export const describeBaselineChange = (report: BaselineReport): string | null =>
+  report.spo2Change === null || report.heartRateChange === null
+    ? null
+    : `SpO₂ ${signed(report.spo2Change)}  ·  HR ${signed(report.heartRateChange)} bpm`;
@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import {
+  Alert,
   View,
   Text,
   TouchableOpacity,
@@ -9,15 +10,23 @@ import {
   SafeAreaView,
   StatusBar,
 } from "react-native";
-import { collection, query, orderBy, onSnapshot } from "firebase/firestore";
-import { db, auth } from "../firebase";
+import { auth } from "../firebase";
 import { useRouter } from "expo-router";
 import { onAuthStateChanged, signOut, User } from "firebase/auth";
+import { useOutbox } from "../hooks/use-outbox";
+import { useRepositories } from "../hooks/use-repositories";
+import { Patient } from "../repositories";
+import { discardFailed, failedEntries, flushOutbox, pendingFor, retryFailed } from "../outbox";
 
 export default function Dashboard() {
-  const [patients, setPatients] = useState<any[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const outbox = useOutbox();
+  const failed = failedEntries(outbox);
+  const waiting = outbox.filter((e) => !e.failed);
+  const repositories = useRepositories();
   const router = useRouter();
 
   useEffect(() => {
@@ -36,25 +45,11 @@ export default function Dashboard() {
       return;
     }
 
-    // Real-time listener: updates patients immediately whenever Firestore changes
-    const q = query(
-      collection(db, "users", user.uid, "patients"),
-      orderBy("name")
-    );
-
-    const unsubscribeSnapshot = onSnapshot(
-      q,
-      (snap) => {
-        setPatients(snap.docs.map((doc) => ({ id: doc.id, ...doc.data() })));
-      },
-      (err) => {
-        console.error("Failed to listen to patients:", err);
-      }
-    );
-
-    // Cleanup listener when user changes or component unmounts
-    return () => unsubscribeSnapshot();
-  }, [user]);
+    // Real-time listener: updates patients immediately whenever Firestore changes.
+    // Returns the unsubscribe function, so the listener is cleaned up when the
+    // user changes or the component unmounts.
+    return repositories.patients.subscribe(user.uid, setPatients);
+  }, [user, repositories]);
 
   const handleSignOut = async () => {
     try {
@@ -65,6 +60,17 @@ export default function Dashboard() {
     }
   };
 
+  const handleDiscardFailed = () => {
+    Alert.alert(
+      "Discard readings",
+      `Delete ${failed.length === 1 ? "this reading" : `these ${failed.length} readings`} from this phone? They were never saved to your records.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Discard", style: "destructive", onPress: () => { discardFailed(); } },
+      ]
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -110,6 +116,69 @@ export default function Dashboard() {
           <Text style={styles.addButtonText}>＋  Add New Member</Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={styles.devicesButton}
+          onPress={() => router.push("/devices")}
+          activeOpacity={0.85}
+        >
+          <Text style={styles.devicesButtonText}>📡  Manage Devices</Text>
+        </TouchableOpacity>
+
+        {/* Pending Sync */}
+        {waiting.length > 0 && (
+          <View style={styles.syncBanner}>
+            <Text style={styles.syncText}>
+              ⏳  {waiting.length} {waiting.length === 1 ? "reading" : "readings"} waiting to sync
+            </Text>
+            <TouchableOpacity
+              style={[styles.syncButton, syncing && { opacity: 0.5 }]}
+              onPress={async () => {
+                setSyncing(true);
+                await flushOutbox().catch(() => {});
+                setSyncing(false);
+              }}
+              disabled={syncing}
+              activeOpacity={0.8}
+            >
+              {syncing
+                ? <ActivityIndicator size="small" color="#fff" />
+                : <Text style={styles.syncButtonText}>Sync now</Text>}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Failed Sync — retrying on its own would only be rejected again */}
+        {failed.length > 0 && (
+          <View style={styles.failedBanner}>
+            <Text style={styles.failedText}>
+              ✕  {failed.length} {failed.length === 1 ? "reading" : "readings"} could not be saved to your records
+            </Text>
+            {failed[0].lastError && <Text style={styles.failedDetail}>{failed[0].lastError}</Text>}
+            <View style={styles.failedActions}>
+              <TouchableOpacity
+                style={styles.failedButton}
+                onPress={async () => {
+                  await retryFailed();
+                  setSyncing(true);
+                  await flushOutbox().catch(() => {});
+                  setSyncing(false);
+                }}
+                disabled={syncing}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.syncButtonText}>Try again</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.discardButton}
+                onPress={handleDiscardFailed}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.discardButtonText}>Discard</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
         {/* Patient List */}
         {patients.length === 0 ? (
           <View style={styles.emptyContainer}>
@@ -133,6 +202,16 @@ export default function Dashboard() {
                     {p.age && p.condition ? "  ·  " : ""}
                     {p.condition ?? ""}
                   </Text>
+                  {pendingFor(waiting, p.id).length > 0 && (
+                    <Text style={styles.pendingBadge}>
+                      ⏳ {pendingFor(waiting, p.id).length} pending sync
+                    </Text>
+                  )}
+                  {pendingFor(failed, p.id).length > 0 && (
+                    <Text style={styles.failedBadge}>
+                      ✕ {pendingFor(failed, p.id).length} not synced
+                    </Text>
+                  )}
                 </View>
               </View>
 
@@ -195,7 +274,7 @@ const styles = StyleSheet.create({
     paddingVertical: 16,
     borderRadius: 16,
     alignItems: "center",
-    marginBottom: 28,
+    marginBottom: 12,
     shadowColor: "#6366f1",
     shadowOpacity: 0.35,
     shadowRadius: 12,
@@ -203,6 +282,8 @@ const styles = StyleSheet.create({
     elevation: 6,
   },
   addButtonText: { color: "#fff", fontSize: 17, fontWeight: "700", letterSpacing: 0.3 },
+  devicesButton: { backgroundColor: "#f1f5f9", paddingVertical: 14, borderRadius: 16, alignItems: "center", marginBottom: 28, borderWidth: 1.5, borderColor: "#e2e8f0" },
+  devicesButtonText: { color: "#334155", fontSize: 15, fontWeight: "700" },
   emptyContainer: { alignItems: "center", marginTop: 60 },
   emptyIcon: { fontSize: 56, marginBottom: 16 },
   emptyText: { fontSize: 20, fontWeight: "700", color: "#334155" },
@@ -214,6 +295,19 @@ const styles = StyleSheet.create({
   cardInfo: { flex: 1 },
   cardName: { fontSize: 19, fontWeight: "700", color: "#0f172a" },
   cardMeta: { fontSize: 13, color: "#94a3b8", marginTop: 2, fontWeight: "500" },
+  pendingBadge: { alignSelf: "flex-start", fontSize: 11, fontWeight: "700", color: "#b45309", backgroundColor: "#fffbeb", borderRadius: 8, paddingHorizontal: 8, paddingVertical: 3, marginTop: 6, overflow: "hidden" },
+  syncBanner: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", backgroundColor: "#fffbeb", borderRadius: 16, padding: 14, marginBottom: 16, borderWidth: 1.5, borderColor: "#fde68a" },
+  syncText: { flex: 1, fontSize: 14, fontWeight: "600", color: "#b45309" },
+  syncButton: { backgroundColor: "#d97706", paddingHorizontal: 14, paddingVertical: 8, borderRadius: 10, minWidth: 88, alignItems: "center" },
+  syncButtonText: { color: "#fff", fontWeight: "700", fontSize: 13 },
+  failedBadge: { alignSelf: "flex-start", fontSize: 11, fontWeight: "700", color: "#dc2626", backgroundColor: "#fef2f2", borderRadius: 8, paddingHorizontal: 8, paddingVertical: 3, marginTop: 6, overflow: "hidden" },
+  failedBanner: { backgroundColor: "#fef2f2", borderRadius: 16, padding: 14, marginBottom: 16, borderWidth: 1.5, borderColor: "#fecaca" },
+  failedText: { fontSize: 14, fontWeight: "700", color: "#dc2626" },
+  failedDetail: { fontSize: 12, fontWeight: "500", color: "#b91c1c", marginTop: 4 },
+  failedActions: { flexDirection: "row", gap: 10, marginTop: 12 },
+  failedButton: { backgroundColor: "#dc2626", paddingHorizontal: 14, paddingVertical: 8, borderRadius: 10, minWidth: 88, alignItems: "center" },
+  discardButton: { backgroundColor: "#fff", paddingHorizontal: 14, paddingVertical: 8, borderRadius: 10, minWidth: 88, alignItems: "center", borderWidth: 1.5, borderColor: "#fecaca" },
+  discardButtonText: { color: "#dc2626", fontWeight: "700", fontSize: 13 },
   cardActions: { flexDirection: "row", gap: 10 },
   viewButton: { flex: 1, backgroundColor: "#f1f5f9", paddingVertical: 12, borderRadius: 12, alignItems: "center" },
   viewButtonText: { fontSize: 14, fontWeight: "700", color: "#334155" },
@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  Alert,
+} from "react-native";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import {
+  DeviceConfig,
+  DEFAULT_DEVICE_CONFIG,
+  DEVICE_CONFIG_LIMITS,
+  fetchDeviceConfig,
+  updateDeviceConfig,
+  resetDeviceConfig,
+  validateDeviceConfig,
+  describeESPError,
+  fetchDeviceInfo,
+  ESPError,
+} from "../esp";
+import { resolveDeviceAuth, forgetDeviceToken } from "../device-tokens";
+import { PairingCard } from "../components/pairing-card";
+
+// Text inputs hold strings; converted to numbers only for validation and saving
+type ConfigForm = {
+  irFingerThreshold: string;
+  sampleCounts: string[];
+  displayIntervalMs: string;
+};
+
+const toForm = (config: DeviceConfig): ConfigForm => ({
+  irFingerThreshold: String(config.irFingerThreshold),
+  sampleCounts: config.sampleCounts.map(String),
+  displayIntervalMs: String(config.displayIntervalMs),
+});
+
+const fromForm = (form: ConfigForm): DeviceConfig => ({
+  irFingerThreshold: Number(form.irFingerThreshold),
+  sampleCounts: form.sampleCounts.map(Number),
+  displayIntervalMs: Number(form.displayIntervalMs),
+});
+
+export default function DeviceSettingsScreen() {
+  const { ip, name } = useLocalSearchParams<{ ip: string; name?: string }>();
+  const router = useRouter();
+
+  const [form, setForm] = useState<ConfigForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [token, setToken] = useState<string | null>(null);
+  const [pairing, setPairing] = useState<{ deviceId: string; repair: boolean } | null>(null);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+
+  // A rejected token is forgotten and the pairing card takes over
+  const handleError = useCallback((err: unknown, id: string | null) => {
+    if (err instanceof ESPError && err.kind === "unauthorized" && id) {
+      forgetDeviceToken(id).catch(() => {});
+      setToken(null);
+      setPairing({ deviceId: id, repair: true });
+      return;
+    }
+    setError(describeESPError(err));
+  }, []);
+
+  const loadConfig = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    setPairing(null);
+    let id: string | null = null;
+    try {
+      const info = await fetchDeviceInfo(ip);
+      id = info.deviceId;
+      setDeviceId(id);
+      const deviceAuth = await resolveDeviceAuth(info);
+      if (deviceAuth.status === "unpaired") {
+        setPairing({ deviceId: deviceAuth.deviceId, repair: false });
+      } else {
+        const nextToken = deviceAuth.status === "paired" ? deviceAuth.token : null;
+        setToken(nextToken);
+        setForm(toForm(await fetchDeviceConfig(ip, { token: nextToken })));
+      }
+    } catch (err) {
+      handleError(err, id);
+    }
+    setLoading(false);
+  }, [ip, handleError]);
+
+  useEffect(() => { loadConfig(); }, [loadConfig]);
+
+  const errors = form ? validateDeviceConfig(fromForm(form)) : {};
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const handleSave = async () => {
+    if (!form || hasErrors) return;
+    setSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      setForm(toForm(await updateDeviceConfig(ip, fromForm(form), { token })));
+      setNotice("Settings saved to the device.");
+    } catch (err) {
+      handleError(err, deviceId);
+    }
+    setSaving(false);
+  };
+
+  const handleRestoreDefaults = () => {
+    Alert.alert("Restore defaults", "Reset all sensor settings on this device to their factory values?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Restore",
+        style: "destructive",
+        onPress: async () => {
+          setSaving(true);
+          setError("");
+          setNotice("");
+          try {
+            setForm(toForm(await resetDeviceConfig(ip, { token })));
+            setNotice("Default settings restored.");
+          } catch (err) {
+            handleError(err, deviceId);
+          }
+          setSaving(false);
+        },
+      },
+    ]);
+  };
+
+  const L = DEVICE_CONFIG_LIMITS;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8fafc" />
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+
+        {/* Header */}
+        <View style={styles.header}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.greeting}>{name ?? "Device"} · {ip}</Text>
+            <Text style={styles.title}>Sensor Settings</Text>
+          </View>
+          <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+            <Text style={styles.backText}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator color="#6366f1" size="large" style={{ marginTop: 40 }} />
+        ) : pairing ? (
+          <PairingCard
+            deviceIP={ip}
+            deviceId={pairing.deviceId}
+            repair={pairing.repair}
+            onPaired={loadConfig}
+            onCancel={() => router.back()}
+          />
+        ) : !form ? (
+          <View style={styles.card}>
+            <Text style={styles.errorText}>⚠️  {error}</Text>
+            <TouchableOpacity style={styles.secondaryButton} onPress={loadConfig}>
+              <Text style={styles.secondaryButtonText}>Try again</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            {/* Finger detection */}
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>Finger Detection</Text>
+              <Text style={styles.fieldLabel}>IR threshold</Text>
+              <TextInput
+                style={[styles.input, errors.irFingerThreshold && styles.inputError]}
+                value={form.irFingerThreshold}
+                onChangeText={(v) => setForm({ ...form, irFingerThreshold: v })}
+                keyboardType="number-pad"
+              />
+              <Text style={errors.irFingerThreshold ? styles.fieldError : styles.fieldHint}>
+                {errors.irFingerThreshold ??
+                  `Lower detects lighter contact; higher ignores ambient light. Default ${DEFAULT_DEVICE_CONFIG.irFingerThreshold}.`}
+              </Text>
+            </View>
+
+            {/* Sample windows */}
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>Sample Windows</Text>
+              <View style={styles.windowRow}>
+                {form.sampleCounts.map((count, i) => (
+                  <View key={i} style={styles.windowField}>
+                    <Text style={styles.fieldLabel}>#{i + 1}</Text>
+                    <TextInput
+                      style={[styles.input, styles.windowInput, errors.sampleCounts && styles.inputError]}
+                      value={count}
+                      onChangeText={(v) => {
+                        const sampleCounts = [...form.sampleCounts];
+                        sampleCounts[i] = v;
+                        setForm({ ...form, sampleCounts });
+                      }}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                ))}
+              </View>
+              <Text style={errors.sampleCounts ? styles.fieldError : styles.fieldHint}>
+                {errors.sampleCounts ??
+                  `Samples per window (${L.sampleCount.min}–${L.sampleCount.max}). More samples take longer but are steadier.`}
+              </Text>
+            </View>
+
+            {/* Display */}
+            <View style={styles.card}>
+              <Text style={styles.cardLabel}>Display</Text>
+              <Text style={styles.fieldLabel}>OLED refresh interval (ms)</Text>
+              <TextInput
+                style={[styles.input, errors.displayIntervalMs && styles.inputError]}
+                value={form.displayIntervalMs}
+                onChangeText={(v) => setForm({ ...form, displayIntervalMs: v })}
+                keyboardType="number-pad"
+              />
+              <Text style={errors.displayIntervalMs ? styles.fieldError : styles.fieldHint}>
+                {errors.displayIntervalMs ??
+                  `Longer intervals leave more time for network requests. Default ${DEFAULT_DEVICE_CONFIG.displayIntervalMs} ms.`}
+              </Text>
+            </View>
+
+            {error !== "" && (
+              <View style={styles.errorCard}>
+                <Text style={styles.errorText}>⚠️  {error}</Text>
+              </View>
+            )}
+            {notice !== "" && (
+              <View style={styles.noticeCard}>
+                <Text style={styles.noticeText}>✓  {notice}</Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (hasErrors || saving) && { opacity: 0.5 }]}
+              onPress={handleSave}
+              disabled={hasErrors || saving}
+              activeOpacity={0.85}
+            >
+              {saving
+                ? <ActivityIndicator color="#fff" />
+                : <Text style={styles.primaryButtonText}>Save to Device</Text>}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleRestoreDefaults}
+              disabled={saving}
+              activeOpacity={0.85}
+            >
+              <Text style={styles.secondaryButtonText}>Restore Defaults</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#f8fafc" },
+  scrollContent: { padding: 20, paddingBottom: 40 },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start", marginBottom: 20, marginTop: 8 },
+  greeting: { fontSize: 15, color: "#64748b", fontWeight: "500", marginBottom: 2 },
+  title: { fontSize: 30, fontWeight: "800", color: "#0f172a", letterSpacing: -0.5 },
+  backBtn: { backgroundColor: "#f1f5f9", paddingHorizontal: 14, paddingVertical: 8, borderRadius: 12, marginTop: 4 },
+  backText: { color: "#334155", fontSize: 14, fontWeight: "600" },
+  card: { backgroundColor: "#fff", borderRadius: 20, marginBottom: 14, padding: 18, shadowColor: "#000", shadowOpacity: 0.06, shadowRadius: 12, shadowOffset: { width: 0, height: 3 }, elevation: 3 },
+  cardLabel: { fontSize: 12, color: "#94a3b8", fontWeight: "700", textTransform: "uppercase", letterSpacing: 0.8, marginBottom: 12 },
+  fieldLabel: { fontSize: 13, color: "#64748b", fontWeight: "600", marginBottom: 6 },
+  input: { backgroundColor: "#f1f5f9", color: "#0f172a", padding: 14, borderRadius: 12, fontSize: 16, fontWeight: "600", borderWidth: 1, borderColor: "#e2e8f0" },
+  inputError: { borderColor: "#f87171", backgroundColor: "#fef2f2" },
+  fieldHint: { fontSize: 12, color: "#94a3b8", fontWeight: "500", marginTop: 8, lineHeight: 17 },
+  fieldError: { fontSize: 12, color: "#dc2626", fontWeight: "600", marginTop: 8 },
+  windowRow: { flexDirection: "row", gap: 8 },
+  windowField: { flex: 1 },
+  windowInput: { paddingHorizontal: 6, textAlign: "center" },
+  errorCard: { backgroundColor: "#fef2f2", borderRadius: 16, padding: 14, marginBottom: 12, borderWidth: 1.5, borderColor: "#fecaca" },
+  errorText: { color: "#dc2626", fontSize: 14, fontWeight: "600" },
+  noticeCard: { backgroundColor: "#f0fdf4", borderRadius: 16, padding: 14, marginBottom: 12, borderWidth: 1.5, borderColor: "#bbf7d0" },
+  noticeText: { color: "#16a34a", fontSize: 14, fontWeight: "600" },
+  primaryButton: { backgroundColor: "#6366f1", paddingVertical: 16, borderRadius: 16, alignItems: "center", marginBottom: 12 },
+  primaryButtonText: { color: "#fff", fontSize: 17, fontWeight: "700", letterSpacing: 0.3 },
+  secondaryButton: { backgroundColor: "#f1f5f9", paddingVertical: 14, borderRadius: 16, alignItems: "center", marginTop: 4, borderWidth: 1.5, borderColor: "#e2e8f0" },
+  secondaryButtonText: { color: "#334155", fontSize: 16, fontWeight: "700" },
+});
@@ -0,0 +1,330 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  Alert,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { auth } from "../firebase";
+import { fetchDeviceInfo } from "../esp";
+import { resolveDeviceAuth } from "../device-tokens";
+import { PairingCard } from "../components/pairing-card";
+import {
+  Device,
+  subscribeDevices,
+  addDevice,
+  updateDevice,
+  removeDevice,
+  markDeviceSeen,
+  setDefaultDevice,
+  formatLastSeen,
+} from "../devices";
+
+// deviceId is set for devices with pairing, so the card can offer to (re-)pair
+type TestResult = { ok: boolean; text: string; deviceId?: string; paired?: boolean };
+
+export default function DevicesScreen() {
+  const router = useRouter();
+  const uid = auth.currentUser?.uid;
+
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [ip, setIP] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editIP, setEditIP] = useState("");
+  const [testing, setTesting] = useState<string | null>(null);
+  const [results, setResults] = useState<{ [id: string]: TestResult }>({});
+  const [pairingId, setPairingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!uid) return;
+    const unsubscribe = subscribeDevices(
+      uid,
+      (list) => {
+        setDevices(list);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+    return unsubscribe;
+  }, [uid]);
+
+  const handleAdd = async () => {
+    if (!uid) return;
+    if (!name.trim() || !ip.trim()) {
+      alert("Please enter a name and an IP address.");
+      return;
+    }
+    try {
+      await addDevice(uid, { name, ip, isDefault: devices.length === 0 });
+      setName("");
+      setIP("");
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const startEditing = (device: Device) => {
+    setEditingId(device.id);
+    setEditName(device.name);
+    setEditIP(device.ip);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!uid || !editingId) return;
+    if (!editName.trim() || !editIP.trim()) return;
+    try {
+      await updateDevice(uid, editingId, { name: editName, ip: editIP });
+      setEditingId(null);
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  // /info answers without a token, so this works whether or not the phone is paired
+  const handleTest = async (device: Device) => {
+    if (!uid) return;
+    setTesting(device.id);
+    let result: TestResult;
+    try {
+      const info = await fetchDeviceInfo(device.ip);
+      const deviceAuth = await resolveDeviceAuth(info);
+      markDeviceSeen(uid, device.id).catch(() => {});
+      result = deviceAuth.status === "open"
+        ? { ok: true, text: `Online · firmware ${info.firmwareVersion}` }
+        : {
+            ok: true,
+            text: `Online · firmware ${info.firmwareVersion} · ${deviceAuth.status === "paired" ? "paired" : "not paired with this phone"}`,
+            deviceId: info.deviceId ?? undefined,
+            paired: deviceAuth.status === "paired",
+          };
+    } catch {
+      result = { ok: false, text: "No response" };
+    }
+    setTesting(null);
+    setResults((prev) => ({ ...prev, [device.id]: result }));
+  };
+
+  const handlePaired = (device: Device) => {
+    setPairingId(null);
+    setResults((prev) => ({
+      ...prev,
+      [device.id]: { ...prev[device.id], paired: true, text: "Paired with this phone" },
+    }));
+  };
+
+  const handleRemove = (device: Device) => {
+    if (!uid) return;
+    Alert.alert("Remove device", `Remove "${device.name}" from your devices?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          await removeDevice(uid, device.id);
+          // Keep a default around if we just removed it
+          const rest = devices.filter((d) => d.id !== device.id);
+          if (device.isDefault && rest.length > 0) setDefaultDevice(uid, rest[0].id, rest);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8fafc" />
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+
+        {/* Header */}
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.greeting}>Shared by all patients</Text>
+            <Text style={styles.title}>Devices</Text>
+          </View>
+          <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+            <Text style={styles.backText}>← Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Add Device */}
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>Add Device</Text>
+          <TextInput
+            placeholder="Name (e.g. Living room)"
+            placeholderTextColor="#94a3b8"
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+          />
+          <TextInput
+            placeholder="IP address (e.g. 192.168.1.50)"
+            placeholderTextColor="#94a3b8"
+            style={styles.input}
+            value={ip}
+            onChangeText={setIP}
+            autoCapitalize="none"
+            keyboardType="numbers-and-punctuation"
+          />
+          <TouchableOpacity style={styles.addButton} onPress={handleAdd} activeOpacity={0.85}>
+            <Text style={styles.addButtonText}>＋  Add Device</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Device List */}
+        {loading ? (
+          <ActivityIndicator color="#6366f1" size="large" style={{ marginTop: 40 }} />
+        ) : devices.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>📡</Text>
+            <Text style={styles.emptyText}>No devices yet.</Text>
+            <Text style={styles.emptySubtext}>Add the IP shown on the oximeter screen.</Text>
+          </View>
+        ) : (
+          devices.map((device) => {
+            const result = results[device.id];
+            const editing = editingId === device.id;
+            return (
+              <View key={device.id} style={styles.card}>
+                {editing ? (
+                  <>
+                    <TextInput style={styles.input} value={editName} onChangeText={setEditName} />
+                    <TextInput
+                      style={styles.input}
+                      value={editIP}
+                      onChangeText={setEditIP}
+                      autoCapitalize="none"
+                      keyboardType="numbers-and-punctuation"
+                    />
+                  </>
+                ) : (
+                  <View style={styles.deviceHeader}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.deviceName}>{device.name}</Text>
+                      <Text style={styles.deviceMeta}>
+                        {device.ip}  ·  {formatLastSeen(device.lastSeen)}
+                      </Text>
+                    </View>
+                    {device.isDefault && (
+                      <View style={styles.defaultBadge}>
+                        <Text style={styles.defaultBadgeText}>Default</Text>
+                      </View>
+                    )}
+                    <TouchableOpacity
+                      style={styles.settingsLink}
+                      onPress={() =>
+                        router.push({ pathname: "/device-settings", params: { ip: device.ip, name: device.name } })
+                      }
+                    >
+                      <Text style={styles.settingsLinkText}>⚙︎ Settings</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {result && (
+                  <Text style={[styles.resultText, { color: result.ok ? "#16a34a" : "#dc2626" }]}>
+                    {result.ok ? "✓  " : "✕  "}{result.text}
+                  </Text>
+                )}
+
+                {result?.deviceId && pairingId !== device.id && (
+                  <TouchableOpacity onPress={() => setPairingId(device.id)}>
+                    <Text style={styles.pairLink}>{result.paired ? "Pair again" : "Pair this phone"}</Text>
+                  </TouchableOpacity>
+                )}
+
+                {result?.deviceId && pairingId === device.id && (
+                  <View style={{ marginTop: 12 }}>
+                    <PairingCard
+                      deviceIP={device.ip}
+                      deviceId={result.deviceId}
+                      repair={result.paired}
+                      onPaired={() => handlePaired(device)}
+                      onCancel={() => setPairingId(null)}
+                    />
+                  </View>
+                )}
+
+                <View style={styles.actions}>
+                  {editing ? (
+                    <>
+                      <TouchableOpacity style={styles.actionButton} onPress={handleSaveEdit}>
+                        <Text style={styles.actionText}>Save</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.actionButton} onPress={() => setEditingId(null)}>
+                        <Text style={styles.actionText}>Cancel</Text>
+                      </TouchableOpacity>
+                    </>
+                  ) : (
+                    <>
+                      <TouchableOpacity style={styles.actionButton} onPress={() => handleTest(device)}>
+                        {testing === device.id
+                          ? <ActivityIndicator size="small" color="#6366f1" />
+                          : <Text style={styles.actionText}>Test</Text>}
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.actionButton} onPress={() => startEditing(device)}>
+                        <Text style={styles.actionText}>Edit</Text>
+                      </TouchableOpacity>
+                      {!device.isDefault && (
+                        <TouchableOpacity
+                          style={styles.actionButton}
+                          onPress={() => uid && setDefaultDevice(uid, device.id, devices)}
+                        >
+                          <Text style={styles.actionText}>Default</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(device)}>
+                        <Text style={styles.removeText}>Remove</Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+                </View>
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#f8fafc" },
+  scrollContent: { padding: 20, paddingBottom: 40 },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start", marginBottom: 20, marginTop: 8 },
+  greeting: { fontSize: 15, color: "#64748b", fontWeight: "500", marginBottom: 2 },
+  title: { fontSize: 30, fontWeight: "800", color: "#0f172a", letterSpacing: -0.5 },
+  backBtn: { backgroundColor: "#f1f5f9", paddingHorizontal: 14, paddingVertical: 8, borderRadius: 12, marginTop: 4 },
+  backText: { color: "#334155", fontSize: 14, fontWeight: "600" },
+  card: { backgroundColor: "#fff", borderRadius: 20, marginBottom: 14, padding: 18, shadowColor: "#000", shadowOpacity: 0.06, shadowRadius: 12, shadowOffset: { width: 0, height: 3 }, elevation: 3 },
+  cardLabel: { fontSize: 12, color: "#94a3b8", fontWeight: "700", textTransform: "uppercase", letterSpacing: 0.8, marginBottom: 12 },
+  input: { backgroundColor: "#f1f5f9", color: "#0f172a", padding: 14, borderRadius: 12, fontSize: 16, fontWeight: "600", borderWidth: 1, borderColor: "#e2e8f0", marginBottom: 10 },
+  addButton: { backgroundColor: "#6366f1", paddingVertical: 14, borderRadius: 14, alignItems: "center", marginTop: 4 },
+  addButtonText: { color: "#fff", fontSize: 16, fontWeight: "700", letterSpacing: 0.3 },
+  emptyContainer: { alignItems: "center", marginTop: 40 },
+  emptyIcon: { fontSize: 52, marginBottom: 14 },
+  emptyText: { fontSize: 19, fontWeight: "700", color: "#334155" },
+  emptySubtext: { fontSize: 14, color: "#94a3b8", marginTop: 6, fontWeight: "500" },
+  deviceHeader: { flexDirection: "row", alignItems: "center" },
+  deviceName: { fontSize: 18, fontWeight: "700", color: "#0f172a" },
+  deviceMeta: { fontSize: 13, color: "#94a3b8", marginTop: 2, fontWeight: "500" },
+  defaultBadge: { backgroundColor: "#e0e7ff", borderRadius: 8, paddingHorizontal: 8, paddingVertical: 4 },
+  defaultBadgeText: { fontSize: 11, color: "#6366f1", fontWeight: "700" },
+  settingsLink: { marginLeft: 10, paddingVertical: 4 },
+  settingsLinkText: { fontSize: 13, color: "#6366f1", fontWeight: "700" },
+  resultText: { fontSize: 13, fontWeight: "600", marginTop: 10 },
+  pairLink: { fontSize: 13, color: "#6366f1", fontWeight: "700", marginTop: 8 },
+  actions: { flexDirection: "row", gap: 8, marginTop: 14 },
+  actionButton: { flex: 1, backgroundColor: "#f1f5f9", paddingVertical: 10, borderRadius: 12, alignItems: "center" },
+  actionText: { fontSize: 13, fontWeight: "700", color: "#334155" },
+  removeButton: { flex: 1, backgroundColor: "#fef2f2", paddingVertical: 10, borderRadius: 12, alignItems: "center", borderWidth: 1.5, borderColor: "#fecaca" },
+  removeText: { fontSize: 13, fontWeight: "700", color: "#dc2626" },
+});
@@ -1,4 +1,4 @@
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState, useMemo, useRef } from "react";
 import {
   View,
   Text,
@@ -11,8 +11,26 @@ import {
   Dimensions,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { collection, getDocs, orderBy, query } from "firebase/firestore";
-import { db, auth } from "../../firebase";
+import { auth } from "../../firebase";
+import { useOutbox } from "../../hooks/use-outbox";
+import { useRepositories } from "../../hooks/use-repositories";
+import { MeasurementRecord, Patient, RECORD_SCHEMA_VERSION } from "../../repositories";
+import {
+  ageBandFor,
+  compareToBaseline,
+  confidenceFor,
+  CONFIDENCE_STYLES,
+  DEFAULT_RANGES,
+  rangesFor,
+  recordQuality,
+  recordSeverity,
+  RANGE_PRESETS,
+  SEVERITY_STYLES,
+  TargetRanges,
+} from "../assessment";
+import { TargetRangeEditor } from "../../components/target-range-editor";
+import { BaselineChange } from "../../components/baseline-change";
+import { pendingFor } from "../../outbox";
 import Svg, { Polyline, Line, Circle, Text as SvgText } from "react-native-svg";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
@@ -20,22 +38,11 @@ const GRAPH_W = SCREEN_WIDTH - 48 - 36; // card padding + inner padding
 const GRAPH_H = 140;
 const PAD = { top: 16, bottom: 24, left: 34, right: 8 };
 
-type Record = {
-  id: string;
-  heartRate: number;
-  spo2: number;
-  status: string;
-  totalSamples?: number;
-  createdAt: any;
-};
+// Saved on this phone but not yet written to Firestore when `pending` is set;
+// `failed` when Firestore refused it and it's no longer retried
+type HistoryEntry = MeasurementRecord & { pending?: boolean; failed?: boolean };
 type DateRange = "7d" | "30d" | "90d" | "all";
 
-function parseDate(ts: any): Date {
-  if (!ts) return new Date(0);
-  if (ts?.toDate) return ts.toDate();
-  return new Date(ts);
-}
-
 function LineGraph({
   data,
   field,
@@ -43,13 +50,16 @@ function LineGraph({
   unit,
   yMin,
   yMax,
+  reference,
 }: {
-  data: Record[];
+  data: HistoryEntry[];
   field: "heartRate" | "spo2";
   color: string;
   unit: string;
   yMin: number;
   yMax: number;
+  // The patient's target range, and the alert threshold if there is one
+  reference?: { low: number; high: number; alert?: number };
 }) {
   if (data.length < 2) {
     return (
@@ -60,8 +70,9 @@ function LineGraph({
   }
 
   const values = data.map((r) => r[field]);
-  const minVal = Math.min(yMin, ...values);
-  const maxVal = Math.max(yMax, ...values);
+  const refValues = reference ? [reference.low, reference.high, reference.alert ?? reference.low] : [];
+  const minVal = Math.min(yMin, ...refValues, ...values);
+  const maxVal = Math.max(yMax, ...refValues, ...values);
   const range = maxVal - minVal || 1;
 
   const W = GRAPH_W - PAD.left - PAD.right;
@@ -93,6 +104,22 @@ function LineGraph({
             {lv}
           </SvgText>
         ))}
+        {/* Target range + alert threshold */}
+        {reference && [reference.low, reference.high].map((lv, i) => (
+          <Line
+            key={`target-${i}`}
+            x1={PAD.left} y1={toY(lv)}
+            x2={GRAPH_W - PAD.right} y2={toY(lv)}
+            stroke="#16a34a" strokeOpacity={0.5} strokeWidth="1.5" strokeDasharray="5 4"
+          />
+        ))}
+        {reference?.alert !== undefined && (
+          <Line
+            x1={PAD.left} y1={toY(reference.alert)}
+            x2={GRAPH_W - PAD.right} y2={toY(reference.alert)}
+            stroke="#dc2626" strokeOpacity={0.5} strokeWidth="1.5" strokeDasharray="2 4"
+          />
+        )}
         {/* Line */}
         <Polyline
           points={points}
@@ -115,10 +142,10 @@ function LineGraph({
         ))}
         {/* X date labels */}
         <SvgText x={PAD.left} y={GRAPH_H - 4} fontSize="9" fill="#94a3b8" textAnchor="start">
-          {parseDate(data[0].createdAt).toLocaleDateString([], { month: "short", day: "numeric" })}
+          {data[0].measuredAt.toLocaleDateString([], { month: "short", day: "numeric" })}
         </SvgText>
         <SvgText x={GRAPH_W - PAD.right} y={GRAPH_H - 4} fontSize="9" fill="#94a3b8" textAnchor="end">
-          {parseDate(data[data.length - 1].createdAt).toLocaleDateString([], { month: "short", day: "numeric" })}
+          {data[data.length - 1].measuredAt.toLocaleDateString([], { month: "short", day: "numeric" })}
         </SvgText>
       </Svg>
 
@@ -139,56 +166,93 @@ export default function PatientScreen() {
   const patientId = id as string;
   const router = useRouter();
 
-  const [history, setHistory] = useState<Record[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState<DateRange>("30d");
-
-  useEffect(() => { loadHistory(); }, []);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [includeLowConfidence, setIncludeLowConfidence] = useState(false);
+  const outbox = useOutbox();
+  const { records, patients } = useRepositories();
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [editingRanges, setEditingRanges] = useState(false);
+  const profile = { ranges: patient?.ranges, age: patient?.age };
+  const ranges = rangesFor(profile);
+  // Only the default adult preset follows the patient's age
+  const hrBand = ageBandFor(ranges, patient?.age);
+  const pending = useMemo(() => pendingFor(outbox, patientId), [outbox, patientId]);
+  const lastPendingCount = useRef(0);
+  const [syncedCount, setSyncedCount] = useState(0);
+
+  useEffect(() => { loadHistory(); }, [syncedCount]);
+
+  // A queued reading just reached Firestore — reload so it shows as synced
+  useEffect(() => {
+    if (pending.length < lastPendingCount.current) setSyncedCount((c) => c + 1);
+    lastPendingCount.current = pending.length;
+  }, [pending.length]);
+
+  useEffect(() => {
+    if (!auth.currentUser) return;
+    patients.get(auth.currentUser.uid, patientId).then(setPatient).catch(console.error);
+  }, [patients, patientId]);
+
+  const saveRanges = async (next: TargetRanges) => {
+    if (!auth.currentUser) throw new Error("Not signed in");
+    await patients.update(auth.currentUser.uid, patientId, { ranges: next });
+    setPatient((p) => (p ? { ...p, ranges: next } : p));
+    setEditingRanges(false);
+  };
 
   const loadHistory = async () => {
     if (!auth.currentUser) return;
     setLoading(true);
     try {
-      const q = query(
-        collection(db, "users", auth.currentUser.uid, "patients", patientId, "records"),
-        orderBy("createdAt", "asc")
-      );
-      const snap = await getDocs(q);
-      setHistory(snap.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Record)));
+      setHistory(await records.list(auth.currentUser.uid, patientId));
     } catch (err) { console.error(err); }
     setLoading(false);
   };
 
+  // Readings still in the outbox are listed alongside the synced ones
+  const allRecords = useMemo(() => {
+    const queued = pending
+      .filter((e) => !history.some((r) => r.id === e.id))
+      .map((e): HistoryEntry => ({ ...e.record, id: e.id, measuredAt: new Date(e.record.measuredAt), createdAt: null, schemaVersion: RECORD_SCHEMA_VERSION, pending: true, failed: e.failed }));
+    if (!queued.length) return history;
+    return [...history, ...queued].sort(
+      (a, b) => a.measuredAt.getTime() - b.measuredAt.getTime()
+    );
+  }, [history, pending]);
+
+  // The latest reading against the patient's own usual values — over every
+  // record, whatever date range is picked
+  const baselineReport = useMemo(
+    () => (allRecords.length ? compareToBaseline(allRecords[allRecords.length - 1], allRecords) : null),
+    [allRecords]
+  );
+
   const filteredHistory = useMemo(() => {
-    if (dateRange === "all") return history;
+    if (dateRange === "all") return allRecords;
     const cutoff = Date.now() - { "7d": 7, "30d": 30, "90d": 90 }[dateRange] * 86400000;
-    return history.filter((r) => parseDate(r.createdAt).getTime() >= cutoff);
-  }, [history, dateRange]);
+    return allRecords.filter((r) => r.measuredAt.getTime() >= cutoff);
+  }, [allRecords, dateRange]);
+
+  // Low-confidence readings are left out of the averages unless asked for
+  const lowConfidenceCount = useMemo(
+    () => filteredHistory.filter((r) => confidenceFor(recordQuality(r)) === "low").length,
+    [filteredHistory]
+  );
 
   const avg = useMemo(() => {
-    if (!filteredHistory.length) return null;
+    const counted = includeLowConfidence
+      ? filteredHistory
+      : filteredHistory.filter((r) => confidenceFor(recordQuality(r)) !== "low");
+    if (!counted.length) return null;
     return {
-      heartRate: Math.round(filteredHistory.reduce((s, r) => s + r.heartRate, 0) / filteredHistory.length),
-      spo2: (filteredHistory.reduce((s, r) => s + r.spo2, 0) / filteredHistory.length).toFixed(1),
+      count: counted.length,
+      heartRate: Math.round(counted.reduce((s, r) => s + r.heartRate, 0) / counted.length),
+      spo2: (counted.reduce((s, r) => s + r.spo2, 0) / counted.length).toFixed(1),
     };
-  }, [filteredHistory]);
-
-  const getStatusColor = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case "normal": return "#16a34a";
-      case "warning": return "#d97706";
-      case "critical": return "#dc2626";
-      default: return "#6366f1";
-    }
-  };
-  const getStatusBg = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case "normal": return "#f0fdf4";
-      case "warning": return "#fffbeb";
-      case "critical": return "#fef2f2";
-      default: return "#eef2ff";
-    }
-  };
+  }, [filteredHistory, includeLowConfidence]);
 
   const rangeOptions: { label: string; value: DateRange }[] = [
     { label: "7 days", value: "7d" },
@@ -230,6 +294,42 @@ export default function PatientScreen() {
           ))}
         </View>
 
+        {/* Target Ranges */}
+        {editingRanges ? (
+          <TargetRangeEditor
+            // The stored ranges — saving the age-adjusted ones would pin this age's band
+            ranges={patient?.ranges ?? DEFAULT_RANGES}
+            onSave={saveRanges}
+            onCancel={() => setEditingRanges(false)}
+          />
+        ) : (
+          <View style={styles.card}>
+            <View style={styles.rangesHeader}>
+              <Text style={styles.cardLabel}>
+                Target ranges  ·  {ranges.preset === "custom" ? "Custom" : RANGE_PRESETS[ranges.preset].label}
+              </Text>
+              {patient && (
+                <TouchableOpacity onPress={() => setEditingRanges(true)}>
+                  <Text style={styles.rangesEdit}>Edit</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.rangesText}>
+              🫁  SpO₂ {ranges.spo2Min}–{ranges.spo2Max}%  ·  alert below {ranges.spo2Alert}%
+            </Text>
+            <Text style={styles.rangesText}>
+              ❤️  Heart rate {ranges.hrMin}–{ranges.hrMax} bpm{hrBand ? `  ·  ${hrBand.label}` : ""}
+            </Text>
+          </View>
+        )}
+
+        {!loading && baselineReport && (
+          <BaselineChange
+            report={baselineReport}
+            subtitle={`Latest reading  ·  ${allRecords[allRecords.length - 1].measuredAt.toLocaleString([], { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })}`}
+          />
+        )}
+
         {loading ? (
           <ActivityIndicator color="#6366f1" size="large" style={{ marginTop: 40 }} />
         ) : filteredHistory.length === 0 ? (
@@ -241,14 +341,14 @@ export default function PatientScreen() {
         ) : (
           <>
             {/* Average Summary Card — same card style */}
-            {avg && (
+            {(avg || lowConfidenceCount > 0) && (
               <View style={styles.card}>
-                <Text style={styles.cardLabel}>Period Average  ·  {filteredHistory.length} readings</Text>
+                <Text style={styles.cardLabel}>Period Average  ·  {avg?.count ?? 0} readings</Text>
                 <View style={styles.avgRow}>
                   <View style={styles.avgItem}>
                     <View style={[styles.avgOrb, { backgroundColor: "#fef2f2", borderColor: "#fecaca" }]}>
                       <Text style={styles.avgOrbIcon}>❤️</Text>
-                      <Text style={[styles.avgValue, { color: "#dc2626" }]}>{avg.heartRate}</Text>
+                      <Text style={[styles.avgValue, { color: "#dc2626" }]}>{avg?.heartRate ?? "—"}</Text>
                     </View>
                     <Text style={styles.avgLabel}>avg bpm</Text>
                   </View>
@@ -256,70 +356,131 @@ export default function PatientScreen() {
                   <View style={styles.avgItem}>
                     <View style={[styles.avgOrb, { backgroundColor: "#eff6ff", borderColor: "#bfdbfe" }]}>
                       <Text style={styles.avgOrbIcon}>🫁</Text>
-                      <Text style={[styles.avgValue, { color: "#2563eb" }]}>{avg.spo2}</Text>
+                      <Text style={[styles.avgValue, { color: "#2563eb" }]}>{avg?.spo2 ?? "—"}</Text>
                     </View>
                     <Text style={styles.avgLabel}>avg SpO₂ %</Text>
                   </View>
                 </View>
+                {lowConfidenceCount > 0 && (
+                  <TouchableOpacity onPress={() => setIncludeLowConfidence((v) => !v)}>
+                    <Text style={styles.avgNote}>
+                      {includeLowConfidence
+                        ? `Includes ${lowConfidenceCount} low-confidence ${lowConfidenceCount === 1 ? "reading" : "readings"}  ·  Leave out`
+                        : `${lowConfidenceCount} low-confidence ${lowConfidenceCount === 1 ? "reading" : "readings"} left out  ·  Include`}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
             )}
 
             {/* Heart Rate Graph */}
             <View style={styles.card}>
               <Text style={styles.cardLabel}>Heart Rate over time</Text>
-              <LineGraph data={filteredHistory} field="heartRate" color="#dc2626" unit="bpm" yMin={50} yMax={120} />
+              <LineGraph
+                data={filteredHistory} field="heartRate" color="#dc2626" unit="bpm" yMin={50} yMax={120}
+                reference={{ low: ranges.hrMin, high: ranges.hrMax }}
+              />
             </View>
 
             {/* SpO2 Graph */}
             <View style={styles.card}>
               <Text style={styles.cardLabel}>SpO₂ Saturation over time</Text>
-              <LineGraph data={filteredHistory} field="spo2" color="#2563eb" unit="%" yMin={90} yMax={100} />
+              <LineGraph
+                data={filteredHistory} field="spo2" color="#2563eb" unit="%" yMin={90} yMax={100}
+                reference={{ low: ranges.spo2Min, high: ranges.spo2Max, alert: ranges.spo2Alert }}
+              />
             </View>
 
             {/* History List */}
             <Text style={styles.sectionHeading}>All Readings</Text>
 
-            {reversedHistory.map((record, index) => (
-              <View key={record.id} style={styles.card}>
-                <View style={styles.recordRow}>
-                  {/* Left: index + date */}
-                  <View style={styles.recordLeft}>
-                    <View style={styles.recordIndexBadge}>
-                      <Text style={styles.recordIndexText}>#{filteredHistory.length - index}</Text>
+            {reversedHistory.map((record, index) => {
+              const hasReadings = !!record.readings?.length;
+              const expanded = hasReadings && expandedId === record.id;
+              const severity = SEVERITY_STYLES[recordSeverity(record, profile)];
+              const quality = recordQuality(record);
+              const confidence = CONFIDENCE_STYLES[confidenceFor(quality)];
+              return (
+                <TouchableOpacity
+                  key={record.id}
+                  style={styles.card}
+                  onPress={() => setExpandedId(expanded ? null : record.id)}
+                  disabled={!hasReadings}
+                  activeOpacity={0.85}
+                >
+                  <View style={styles.recordRow}>
+                    {/* Left: index + date */}
+                    <View style={styles.recordLeft}>
+                      <View style={styles.recordIndexBadge}>
+                        <Text style={styles.recordIndexText}>#{filteredHistory.length - index}</Text>
+                      </View>
+                      <Text style={styles.recordDate}>
+                        {record.measuredAt.toLocaleDateString([], { day: "numeric", month: "short", year: "numeric" })}
+                      </Text>
+                      <Text style={styles.recordTime}>
+                        {record.measuredAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                      </Text>
+                      {record.pending && (record.failed
+                        ? <Text style={styles.failedBadge}>✕ Not synced</Text>
+                        : <Text style={styles.pendingBadge}>⏳ Pending sync</Text>)}
                     </View>
-                    <Text style={styles.recordDate}>
-                      {parseDate(record.createdAt).toLocaleDateString([], { day: "numeric", month: "short", year: "numeric" })}
-                    </Text>
-                    <Text style={styles.recordTime}>
-                      {parseDate(record.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
-                    </Text>
-                  </View>
 
-                  {/* Center: vitals */}
-                  <View style={styles.recordMetrics}>
-                    <View style={styles.recordMetric}>
-                      <Text style={[styles.recordMetricValue, { color: "#dc2626" }]}>
-                        {record.heartRate} <Text style={styles.recordMetricUnit}>bpm</Text>
-                      </Text>
-                      <Text style={styles.recordMetricLabel}>Heart Rate</Text>
+                    {/* Center: vitals */}
+                    <View style={styles.recordMetrics}>
+                      <View style={styles.recordMetric}>
+                        <Text style={[styles.recordMetricValue, { color: "#dc2626" }]}>
+                          {record.heartRate} <Text style={styles.recordMetricUnit}>bpm</Text>
+                        </Text>
+                        <Text style={styles.recordMetricLabel}>Heart Rate</Text>
+                      </View>
+                      <View style={styles.recordMetric}>
+                        <Text style={[styles.recordMetricValue, { color: "#2563eb" }]}>
+                          {record.spo2}<Text style={styles.recordMetricUnit}>%</Text>
+                        </Text>
+                        <Text style={styles.recordMetricLabel}>SpO₂</Text>
+                      </View>
                     </View>
-                    <View style={styles.recordMetric}>
-                      <Text style={[styles.recordMetricValue, { color: "#2563eb" }]}>
-                        {record.spo2}<Text style={styles.recordMetricUnit}>%</Text>
+
+                    {/* Right: severity */}
+                    <View style={[styles.statusPill, { backgroundColor: severity.bg }]}>
+                      <Text style={[styles.statusPillText, { color: severity.color }]}>
+                        {severity.name}
+                      </Text>
+                      <Text style={[styles.confidenceText, { color: confidence.color }]}>
+                        {confidence.icon} {quality}
                       </Text>
-                      <Text style={styles.recordMetricLabel}>SpO₂</Text>
                     </View>
                   </View>
 
-                  {/* Right: status */}
-                  <View style={[styles.statusPill, { backgroundColor: getStatusBg(record.status) }]}>
-                    <Text style={[styles.statusPillText, { color: getStatusColor(record.status) }]}>
-                      {record.status ?? "—"}
+                  {hasReadings && (
+                    <Text style={styles.windowToggle}>
+                      {expanded ? "▴  Hide" : "▾  Show"} {record.readings!.length} sample windows
                     </Text>
-                  </View>
-                </View>
-              </View>
-            ))}
+                  )}
+
+                  {expanded && (
+                    <View style={styles.windowTable}>
+                      {record.readings!.map((w, i) => (
+                        <View key={i} style={styles.windowRow}>
+                          <Text style={styles.windowIndex}>Window {i + 1}</Text>
+                          <Text style={[styles.windowValue, { color: w.heartRate > 0 ? "#dc2626" : "#cbd5e1" }]}>
+                            {w.heartRate > 0 ? `${w.heartRate} bpm` : "rejected"}
+                          </Text>
+                          <Text style={[styles.windowValue, { color: w.spo2 > 0 ? "#2563eb" : "#cbd5e1" }]}>
+                            {w.spo2 > 0 ? `${w.spo2}%` : "rejected"}
+                          </Text>
+                        </View>
+                      ))}
+                      {record.deviceId && (
+                        <Text style={styles.windowDevice}>
+                          {record.deviceId}  ·  firmware {record.firmwareVersion ?? "unknown"}
+                        </Text>
+                      )}
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
           </>
         )}
       </ScrollView>
@@ -388,6 +549,11 @@ const styles = StyleSheet.create({
     marginBottom: 14,
   },
 
+  // Target ranges card
+  rangesHeader: { flexDirection: "row", justifyContent: "space-between", alignItems: "flex-start" },
+  rangesEdit: { fontSize: 13, fontWeight: "700", color: "#6366f1" },
+  rangesText: { fontSize: 14, fontWeight: "600", color: "#334155", marginBottom: 4 },
+
   // Average card internals
   avgRow: { flexDirection: "row", alignItems: "center" },
   avgItem: { flex: 1, alignItems: "center" },
@@ -404,6 +570,7 @@ const styles = StyleSheet.create({
   avgValue: { fontSize: 26, fontWeight: "800", letterSpacing: -1 },
   avgLabel: { fontSize: 12, color: "#94a3b8", fontWeight: "600" },
   avgDivider: { width: 1, height: 70, backgroundColor: "#f1f5f9", marginHorizontal: 12 },
+  avgNote: { fontSize: 12, color: "#6366f1", fontWeight: "600", textAlign: "center", marginTop: 12 },
 
   // Empty state
   emptyContainer: { alignItems: "center", marginTop: 60 },
@@ -436,6 +603,8 @@ const styles = StyleSheet.create({
   recordIndexText: { fontSize: 11, color: "#6366f1", fontWeight: "700" },
   recordDate: { fontSize: 11, color: "#64748b", fontWeight: "600", lineHeight: 15 },
   recordTime: { fontSize: 11, color: "#94a3b8", fontWeight: "500" },
+  pendingBadge: { alignSelf: "flex-start", fontSize: 10, fontWeight: "700", color: "#b45309", backgroundColor: "#fffbeb", borderRadius: 6, paddingHorizontal: 6, paddingVertical: 2, marginTop: 4, overflow: "hidden" },
+  failedBadge: { alignSelf: "flex-start", fontSize: 10, fontWeight: "700", color: "#dc2626", backgroundColor: "#fef2f2", borderRadius: 6, paddingHorizontal: 6, paddingVertical: 2, marginTop: 4, overflow: "hidden" },
 
   recordMetrics: { flex: 1, flexDirection: "row", gap: 16 },
   recordMetric: {},
@@ -451,4 +620,13 @@ const styles = StyleSheet.create({
     justifyContent: "center",
   },
   statusPillText: { fontSize: 11, fontWeight: "700", textTransform: "capitalize" },
+  confidenceText: { fontSize: 10, fontWeight: "700", marginTop: 3 },
+
+  // Per-window detail
+  windowToggle: { fontSize: 12, color: "#6366f1", fontWeight: "600", marginTop: 12 },
+  windowTable: { marginTop: 10, borderTopWidth: 1, borderTopColor: "#f1f5f9", paddingTop: 8 },
+  windowRow: { flexDirection: "row", alignItems: "center", paddingVertical: 5 },
+  windowIndex: { flex: 1, fontSize: 12, color: "#64748b", fontWeight: "600" },
+  windowValue: { width: 80, fontSize: 13, fontWeight: "700", textAlign: "right" },
+  windowDevice: { fontSize: 11, color: "#94a3b8", fontWeight: "500", marginTop: 8 },
 });
\ No newline at end of file
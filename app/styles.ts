@@ -47,6 +47,32 @@ export const styles = StyleSheet.create({
     borderColor: "#e2e8f0",
   },
 
+  deviceHeaderRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  deviceHeaderActions: { flexDirection: "row", gap: 16 },
+  deviceRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 8,
+    borderWidth: 1.5,
+    borderColor: "#e2e8f0",
+  },
+  deviceRowActive: { backgroundColor: "#eef2ff", borderColor: "#6366f1" },
+  deviceIP: { fontSize: 15, fontWeight: "700", color: "#334155" },
+  deviceIPActive: { color: "#4f46e5" },
+  deviceMeta: { fontSize: 12, color: "#94a3b8", fontWeight: "500", marginTop: 2, marginLeft: 22 },
+  deviceStatus: { fontSize: 12, color: "#94a3b8", fontWeight: "600", textTransform: "capitalize" },
+  linkText: { color: "#6366f1", fontSize: 14, fontWeight: "700" },
+
   hrRow: { flexDirection: "row", alignItems: "center", marginBottom: 16, gap: 14 },
   hrOrb: {
     flex: 1,
@@ -84,6 +110,40 @@ export const styles = StyleSheet.create({
   },
   measuringText: { color: "#4f46e5", fontSize: 14, fontWeight: "600" },
 
+  healthBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#f8fafc",
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "#e2e8f0",
+  },
+  healthBars: { flexDirection: "row", alignItems: "flex-end", gap: 2, marginRight: 6 },
+  healthBar: { width: 4, borderRadius: 1 },
+  healthText: { fontSize: 11, fontWeight: "700" },
+
+  progressTrack: {
+    height: 8,
+    backgroundColor: "#e0e7ff",
+    borderRadius: 4,
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  progressFill: { height: 8, backgroundColor: "#6366f1", borderRadius: 4 },
+
+  fingerWarning: {
+    backgroundColor: "#fffbeb",
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1.5,
+    borderColor: "#fde68a",
+  },
+  fingerWarningTitle: { fontSize: 16, fontWeight: "800", color: "#b45309", marginBottom: 4 },
+  fingerWarningText: { fontSize: 13, fontWeight: "500", color: "#92400e", lineHeight: 19 },
+
   assessmentCard: {
     borderRadius: 18,
     padding: 18,
@@ -117,6 +177,19 @@ export const styles = StyleSheet.create({
     color: "#dc2626",
   },
 
+  qualityCard: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 14,
+    borderWidth: 1.5,
+    borderColor: "#e2e8f0",
+  },
+  qualityCardLow: { backgroundColor: "#fef2f2", borderColor: "#fecaca" },
+  qualityLabel: { fontSize: 14, fontWeight: "800" },
+  qualityReason: { fontSize: 13, fontWeight: "500", color: "#64748b", lineHeight: 19, marginTop: 4 },
+  qualityPrompt: { fontSize: 13, fontWeight: "700", color: "#dc2626", lineHeight: 19, marginTop: 8 },
+
   saveStatusRow: {
     flexDirection: "row",
     alignItems: "center",
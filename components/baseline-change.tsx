@@ -0,0 +1,58 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { BASELINE_DAYS, BASELINE_MIN_READINGS, BaselineReport, describeBaselineChange } from '@/app/assessment';
+
+type Props = {
+  report: BaselineReport;
+  // Which reading the change is for, when it isn't obvious from where it's shown
+  subtitle?: string;
+  // Drawn inside another card, e.g. the assessment card, rather than as its own
+  embedded?: boolean;
+};
+
+export function BaselineChange({ report, subtitle, embedded = false }: Props) {
+  const change = describeBaselineChange(report);
+
+  return (
+    <View style={embedded ? styles.embedded : styles.card}>
+      <Text style={styles.title}>Change from baseline</Text>
+      {subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+
+      {report.baseline ? (
+        <>
+          <Text style={styles.usual}>
+            Usual {report.baseline.spo2}%  ·  {report.baseline.heartRate} bpm
+          </Text>
+          <Text style={styles.meta}>
+            Median of {report.baseline.count} readings over the last {BASELINE_DAYS} days
+          </Text>
+          {change && <Text style={styles.change}>{change}</Text>}
+        </>
+      ) : (
+        <Text style={styles.meta}>
+          Needs {BASELINE_MIN_READINGS} good readings in {BASELINE_DAYS} days to learn this patient&apos;s usual values.
+        </Text>
+      )}
+
+      {/* Deviations and trends */}
+      {report.flags.map((flag) => (
+        <Text key={flag.kind} style={styles.flag}>⚠️  {flag.message}</Text>
+      ))}
+      {report.baseline && report.flags.length === 0 && (
+        <Text style={styles.steady}>✓  No meaningful change</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { backgroundColor: '#fff', borderRadius: 20, padding: 18, marginBottom: 14, borderWidth: 1.5, borderColor: '#e0e7ff' },
+  embedded: { marginTop: 14, paddingTop: 12, borderTopWidth: 1, borderTopColor: '#0f172a14' },
+  title: { fontSize: 12, fontWeight: '700', color: '#64748b', textTransform: 'uppercase', letterSpacing: 0.8, marginBottom: 8 },
+  subtitle: { fontSize: 12, fontWeight: '600', color: '#94a3b8', marginTop: -4, marginBottom: 8 },
+  usual: { fontSize: 15, fontWeight: '700', color: '#0f172a' },
+  meta: { fontSize: 12, fontWeight: '500', color: '#64748b', marginTop: 2, lineHeight: 18 },
+  change: { fontSize: 14, fontWeight: '700', color: '#334155', marginTop: 8 },
+  flag: { fontSize: 13, fontWeight: '700', color: '#b45309', lineHeight: 19, marginTop: 6 },
+  steady: { fontSize: 13, fontWeight: '600', color: '#16a34a', marginTop: 6 },
+});
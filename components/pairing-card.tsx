@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { saveDeviceToken } from '@/device-tokens';
+import { describePairingError, pairWithDevice, requestPairing } from '@/esp';
+
+type Props = {
+  deviceIP: string;
+  deviceId: string;
+  // True when a token this phone had was rejected, rather than a first pairing
+  repair?: boolean;
+  onPaired: (token: string) => void;
+  onCancel: () => void;
+};
+
+// Two steps: ask the device to show a PIN, then type that PIN in here
+export function PairingCard({ deviceIP, deviceId, repair, onPaired, onCancel }: Props) {
+  const [pinShown, setPinShown] = useState(false);
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleShowPin = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      await requestPairing(deviceIP);
+      setPin('');
+      setPinShown(true);
+    } catch (err) {
+      setError(describePairingError(err));
+    }
+    setBusy(false);
+  };
+
+  const handlePair = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const token = await pairWithDevice(deviceIP, pin);
+      await saveDeviceToken(deviceId, token);
+      onPaired(token);
+    } catch (err) {
+      setError(describePairingError(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{repair ? '🔒  Pair again' : '🔒  Pair this phone'}</Text>
+      <Text style={styles.text}>
+        {pinShown
+          ? 'Enter the 6-digit PIN now showing on the oximeter screen.'
+          : repair
+            ? 'The oximeter no longer accepts this phone. Show a new PIN on the device to pair again.'
+            : 'Only paired phones can start or cancel measurements on this oximeter. Pairing takes a few seconds and only has to be done once.'}
+      </Text>
+
+      {pinShown && (
+        <TextInput
+          style={styles.pinInput}
+          value={pin}
+          onChangeText={(v) => setPin(v.replace(/\D/g, '').slice(0, 6))}
+          placeholder="000000"
+          placeholderTextColor="#94a3b8"
+          keyboardType="number-pad"
+          maxLength={6}
+          editable={!busy}
+        />
+      )}
+
+      {error !== '' && <Text style={styles.error}>{error}</Text>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={busy}>
+          <Text style={styles.cancelText}>Not now</Text>
+        </TouchableOpacity>
+        {pinShown ? (
+          <TouchableOpacity
+            style={[styles.pairButton, (busy || pin.length !== 6) && { opacity: 0.5 }]}
+            onPress={handlePair}
+            disabled={busy || pin.length !== 6}
+          >
+            {busy ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.pairText}>Pair</Text>}
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={[styles.pairButton, busy && { opacity: 0.5 }]} onPress={handleShowPin} disabled={busy}>
+            {busy ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.pairText}>Show PIN on device</Text>}
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {pinShown && (
+        <TouchableOpacity onPress={handleShowPin} disabled={busy}>
+          <Text style={styles.link}>Show a new PIN</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { backgroundColor: '#eef2ff', borderRadius: 20, padding: 18, marginBottom: 14, borderWidth: 1.5, borderColor: '#c7d2fe' },
+  title: { fontSize: 16, fontWeight: '800', color: '#3730a3', marginBottom: 6 },
+  text: { fontSize: 13, color: '#4338ca', lineHeight: 19, fontWeight: '500' },
+  pinInput: { backgroundColor: '#fff', color: '#0f172a', padding: 14, borderRadius: 12, fontSize: 24, fontWeight: '800', letterSpacing: 8, textAlign: 'center', borderWidth: 1, borderColor: '#c7d2fe', marginTop: 14 },
+  error: { color: '#dc2626', fontSize: 13, fontWeight: '600', marginTop: 10 },
+  actions: { flexDirection: 'row', gap: 8, marginTop: 14 },
+  cancelButton: { flex: 1, backgroundColor: '#fff', paddingVertical: 12, borderRadius: 12, alignItems: 'center' },
+  cancelText: { fontSize: 14, fontWeight: '700', color: '#334155' },
+  pairButton: { flex: 2, backgroundColor: '#6366f1', paddingVertical: 12, borderRadius: 12, alignItems: 'center' },
+  pairText: { fontSize: 14, fontWeight: '700', color: '#fff' },
+  link: { fontSize: 13, color: '#6366f1', fontWeight: '700', marginTop: 12, textAlign: 'center' },
+});
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { presetRanges, RANGE_PRESETS, RangePreset, TargetRanges, validateRanges } from '@/app/assessment';
+
+type Props = {
+  ranges: TargetRanges;
+  onSave: (ranges: TargetRanges) => Promise<void>;
+  onCancel: () => void;
+};
+
+type Field = Exclude<keyof TargetRanges, 'preset'>;
+
+const FIELDS: { title: string; unit: string; fields: { key: Field; label: string }[] }[] = [
+  {
+    title: '🫁  SpO₂',
+    unit: '%',
+    fields: [
+      { key: 'spo2Min', label: 'Target low' },
+      { key: 'spo2Max', label: 'Target high' },
+      { key: 'spo2Alert', label: 'Alert below' },
+      { key: 'spo2Critical', label: 'Critical below' },
+    ],
+  },
+  {
+    title: '❤️  Heart rate',
+    unit: 'bpm',
+    fields: [
+      { key: 'hrMin', label: 'Target low' },
+      { key: 'hrMax', label: 'Target high' },
+      { key: 'hrCriticalLow', label: 'Critical below' },
+      { key: 'hrCriticalHigh', label: 'Critical above' },
+    ],
+  },
+];
+
+// Editing any value turns the ranges into a custom set
+export function TargetRangeEditor({ ranges, onSave, onCancel }: Props) {
+  const [draft, setDraft] = useState<TargetRanges>(ranges);
+  const [text, setText] = useState<{ [field in Field]?: string }>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const applyPreset = (preset: Exclude<RangePreset, 'custom'>) => {
+    setDraft(presetRanges(preset));
+    setText({});
+    setError('');
+  };
+
+  const setField = (key: Field, value: string) => {
+    setText((t) => ({ ...t, [key]: value }));
+    setDraft((d) => ({ ...d, preset: 'custom', [key]: value.trim() === '' ? NaN : Number(value) }));
+  };
+
+  const handleSave = async () => {
+    const problem = validateRanges(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      await onSave(draft);
+    } catch (err: any) {
+      setError(err?.message ?? 'Could not save the ranges.');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>🎯  Target ranges</Text>
+
+      {/* Presets */}
+      <View style={styles.presetRow}>
+        {(Object.keys(RANGE_PRESETS) as Exclude<RangePreset, 'custom'>[]).map((preset) => (
+          <TouchableOpacity
+            key={preset}
+            style={[styles.presetPill, draft.preset === preset && styles.presetPillActive]}
+            onPress={() => applyPreset(preset)}
+            disabled={saving}
+          >
+            <Text style={[styles.presetText, draft.preset === preset && styles.presetTextActive]}>
+              {RANGE_PRESETS[preset].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {draft.preset === 'custom' && (
+          <View style={[styles.presetPill, styles.presetPillActive]}>
+            <Text style={[styles.presetText, styles.presetTextActive]}>Custom</Text>
+          </View>
+        )}
+      </View>
+
+      {/* Values */}
+      {FIELDS.map((group) => (
+        <View key={group.title} style={styles.group}>
+          <Text style={styles.groupTitle}>{group.title}</Text>
+          <View style={styles.fieldGrid}>
+            {group.fields.map(({ key, label }) => (
+              <View key={key} style={styles.field}>
+                <Text style={styles.fieldLabel}>{label}</Text>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={styles.input}
+                    value={text[key] ?? String(draft[key])}
+                    onChangeText={(v) => setField(key, v.replace(/[^\d.]/g, ''))}
+                    keyboardType="decimal-pad"
+                    editable={!saving}
+                  />
+                  <Text style={styles.unit}>{group.unit}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </View>
+      ))}
+
+      {error !== '' && <Text style={styles.error}>{error}</Text>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={saving}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.saveButton, saving && { opacity: 0.5 }]} onPress={handleSave} disabled={saving}>
+          {saving ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.saveText}>Save ranges</Text>}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { backgroundColor: '#fff', borderRadius: 20, padding: 18, marginBottom: 14, borderWidth: 1.5, borderColor: '#e0e7ff' },
+  title: { fontSize: 16, fontWeight: '800', color: '#0f172a', marginBottom: 12 },
+  presetRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 6 },
+  presetPill: { paddingHorizontal: 12, paddingVertical: 7, borderRadius: 10, backgroundColor: '#f1f5f9', borderWidth: 1.5, borderColor: '#e2e8f0' },
+  presetPillActive: { backgroundColor: '#6366f1', borderColor: '#6366f1' },
+  presetText: { fontSize: 13, fontWeight: '600', color: '#64748b' },
+  presetTextActive: { color: '#fff' },
+  group: { marginTop: 12 },
+  groupTitle: { fontSize: 13, fontWeight: '700', color: '#334155', marginBottom: 8 },
+  fieldGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 10 },
+  field: { width: '47%' },
+  fieldLabel: { fontSize: 11, fontWeight: '600', color: '#94a3b8', marginBottom: 4, textTransform: 'uppercase', letterSpacing: 0.4 },
+  inputRow: { flexDirection: 'row', alignItems: 'center' },
+  input: { flex: 1, backgroundColor: '#f8fafc', color: '#0f172a', paddingHorizontal: 12, paddingVertical: 9, borderRadius: 10, fontSize: 15, fontWeight: '700', borderWidth: 1, borderColor: '#e2e8f0' },
+  unit: { fontSize: 12, fontWeight: '600', color: '#94a3b8', marginLeft: 6, width: 28 },
+  error: { color: '#dc2626', fontSize: 13, fontWeight: '600', marginTop: 12 },
+  actions: { flexDirection: 'row', gap: 8, marginTop: 16 },
+  cancelButton: { flex: 1, backgroundColor: '#f1f5f9', paddingVertical: 12, borderRadius: 12, alignItems: 'center' },
+  cancelText: { fontSize: 14, fontWeight: '700', color: '#334155' },
+  saveButton: { flex: 2, backgroundColor: '#6366f1', paddingVertical: 12, borderRadius: 12, alignItems: 'center' },
+  saveText: { fontSize: 14, fontWeight: '700', color: '#fff' },
+});
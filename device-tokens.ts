@@ -0,0 +1,28 @@
+// Pairing tokens, one per oximeter. They live in the phone's secure storage
+// only — never in Firestore — so each phone has to pair on its own.
+import * as SecureStore from 'expo-secure-store';
+import { DeviceInfo, supportsFeature } from './esp';
+
+// SecureStore keys allow only letters, digits and . - _
+const keyFor = (deviceId: string) => `device_token_${deviceId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+
+export const getDeviceToken = (deviceId: string): Promise<string | null> =>
+  SecureStore.getItemAsync(keyFor(deviceId));
+
+export const saveDeviceToken = (deviceId: string, token: string): Promise<void> =>
+  SecureStore.setItemAsync(keyFor(deviceId), token);
+
+export const forgetDeviceToken = (deviceId: string): Promise<void> =>
+  SecureStore.deleteItemAsync(keyFor(deviceId));
+
+export type DeviceAuth =
+  | { status: 'open' }                      // firmware without pairing — no token needed
+  | { status: 'paired'; token: string }
+  | { status: 'unpaired'; deviceId: string };
+
+// What a device needs before the app can talk to it, based on its /info
+export const resolveDeviceAuth = async (info: DeviceInfo): Promise<DeviceAuth> => {
+  if (!supportsFeature(info, 'pairing') || !info.deviceId) return { status: 'open' };
+  const token = await getDeviceToken(info.deviceId);
+  return token ? { status: 'paired', token } : { status: 'unpaired', deviceId: info.deviceId };
+};
@@ -0,0 +1,97 @@
+// Per-user registry of named oximeters, shared by every patient
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+
+export interface Device {
+  id: string;
+  name: string;
+  ip: string;
+  lastSeen: Date | null;
+  isDefault: boolean;
+}
+
+const devicesRef = (uid: string) => collection(db, 'users', uid, 'devices');
+
+const toDevice = (id: string, data: { [field: string]: unknown }): Device => ({
+  id,
+  name: typeof data.name === 'string' ? data.name : 'Oximeter',
+  ip: typeof data.ip === 'string' ? data.ip : '',
+  lastSeen: data.lastSeen instanceof Timestamp ? data.lastSeen.toDate() : null,
+  isDefault: data.isDefault === true,
+});
+
+// Real-time listener — returns the unsubscribe function. `fromCache` is true
+// until the server has answered, so an empty list then may just be an empty cache
+export const subscribeDevices = (
+  uid: string,
+  onChange: (devices: Device[], fromCache: boolean) => void,
+  onError?: (err: Error) => void
+) =>
+  onSnapshot(
+    query(devicesRef(uid), orderBy('name')),
+    // Metadata changes too, so the switch from cache to server is reported even when no device changed
+    { includeMetadataChanges: true },
+    (snap) => onChange(snap.docs.map((d) => toDevice(d.id, d.data())), snap.metadata.fromCache),
+    (err) => {
+      console.error('[Devices] Listener failed:', err);
+      onError?.(err);
+    }
+  );
+
+export const addDevice = async (
+  uid: string,
+  device: { name: string; ip: string; isDefault?: boolean }
+): Promise<string> => {
+  const ref = await addDoc(devicesRef(uid), {
+    name: device.name.trim(),
+    ip: device.ip.trim(),
+    lastSeen: null,
+    isDefault: !!device.isDefault,
+  });
+  return ref.id;
+};
+
+export const updateDevice = (uid: string, id: string, changes: { name?: string; ip?: string }) =>
+  updateDoc(doc(devicesRef(uid), id), {
+    ...(changes.name !== undefined && { name: changes.name.trim() }),
+    ...(changes.ip !== undefined && { ip: changes.ip.trim() }),
+  });
+
+export const removeDevice = (uid: string, id: string) => deleteDoc(doc(devicesRef(uid), id));
+
+export const markDeviceSeen = (uid: string, id: string) =>
+  updateDoc(doc(devicesRef(uid), id), { lastSeen: new Date() });
+
+// Only one default at a time — clear the flag on every other device in the same batch
+export const setDefaultDevice = async (uid: string, id: string, devices: Device[]) => {
+  const batch = writeBatch(db);
+  devices.forEach((d) => {
+    if (d.id === id || d.isDefault) {
+      batch.update(doc(devicesRef(uid), d.id), { isDefault: d.id === id });
+    }
+  });
+  await batch.commit();
+};
+
+export const defaultDevice = (devices: Device[]): Device | null =>
+  devices.find((d) => d.isDefault) ?? devices[0] ?? null;
+
+export const formatLastSeen = (lastSeen: Date | null): string => {
+  if (!lastSeen) return 'Never seen';
+  const mins = Math.round((Date.now() - lastSeen.getTime()) / 60000);
+  if (mins < 1) return 'Seen just now';
+  if (mins < 60) return `Seen ${mins} min ago`;
+  if (mins < 24 * 60) return `Seen ${Math.round(mins / 60)} h ago`;
+  return `Seen ${lastSeen.toLocaleDateString([], { day: 'numeric', month: 'short' })}`;
+};
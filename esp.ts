@@ -6,6 +6,11 @@ const esp = axios.create({
   timeout: 5000,   // 5s timeout
 });
 
+export type ESPStatus = 'idle' | 'measuring' | 'Normal' | 'Warning' | 'Critical';
+
+// Why the device's last measurement ended
+export type ESPEndReason = 'none' | 'complete' | 'cancelled' | 'fingerLifted';
+
 export interface ESPData {
   heartRate: number;
   spo2: number;
@@ -13,59 +18,813 @@ export interface ESPData {
   spo2Valid: number;
   totalSamples: number;
   running: boolean;
-  status: string;
+  status: ESPStatus;
+  // One entry per sample window, 0 where the window was rejected.
+  // Missing on firmware that predates per-window reporting.
+  hrReadings?: number[];
+  spo2Readings?: number[];
+  // Perfusion index per window (IR pulse amplitude as % of the IR level, 0
+  // before the window is sampled) — a measure of signal strength. Missing on
+  // firmware before 1.6.0.
+  perfusion?: number[];
+  // Progress and finger contact — also missing on older firmware.
+  // sampleIndex is the 1-based window being sampled, 0 before sampling starts.
+  sampleIndex?: number;
+  fingerPresent?: boolean;
+  endReason?: ESPEndReason;
+  // Session the reading belongs to and who it was started for — missing on
+  // firmware without sessions, empty before the first /start
+  sessionId?: string;
+  patientName?: string;
+}
+
+export interface WindowReading {
+  heartRate: number;
+  spo2: number;
+}
+
+// Pairs up the per-window arrays for storage/display — null on older firmware
+export const windowReadings = (data: ESPData): WindowReading[] | null => {
+  if (!data.hrReadings || !data.spo2Readings) return null;
+  return data.hrReadings.map((heartRate, i) => ({ heartRate, spo2: data.spo2Readings![i] ?? 0 }));
+};
+
+// ── Auth ──────────────────────────────────────────────────────────────────────
+
+// Firmware with the `pairing` feature rejects /start, /cancel, /data, /config
+// and the live stream unless they carry the token this phone was issued by /pair.
+// Aborting `signal` stops the request and any retries still to come.
+export interface ESPRequestOptions {
+  token?: string | null;
+  signal?: AbortSignal;
+}
+
+// axios config for one request — auth header plus the caller's abort signal
+const requestConfig = ({ token, signal }: ESPRequestOptions) => ({
+  headers: token ? { Authorization: `Bearer ${token}` } : {},
+  signal,
+});
+
+// ── Errors ────────────────────────────────────────────────────────────────────
+
+export type ESPErrorKind =
+  | 'unreachable'
+  | 'timeout'
+  | 'busy'
+  | 'unauthorized'
+  | 'malformed'
+  | 'http'
+  | 'aborted';
+
+export class ESPError extends Error {
+  readonly kind: ESPErrorKind;
+  readonly status?: number;
+  // For `busy`: the patient whose measurement is holding the device, when it says
+  readonly busyWith?: string;
+
+  constructor(kind: ESPErrorKind, message: string, status?: number, busyWith?: string) {
+    super(message);
+    this.name = 'ESPError';
+    this.kind = kind;
+    this.status = status;
+    this.busyWith = busyWith;
+  }
+
+  // Worth another attempt — the ESP8266 drops requests while it's sampling
+  get retriable() {
+    return this.kind === 'unreachable' || this.kind === 'timeout';
+  }
 }
 
-// Retry helper — ESP8266 can occasionally miss a request under load
-const withRetry = async <T>(fn: () => Promise<T>, retries = 3, delayMs = 500): Promise<T> => {
+const toESPError = (err: unknown): ESPError => {
+  if (err instanceof ESPError) return err;
+  if (axios.isCancel(err)) return new ESPError('aborted', 'Request was aborted');
+  if (axios.isAxiosError(err)) {
+    if (err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT') {
+      return new ESPError('timeout', 'Device did not respond in time');
+    }
+    if (err.response) {
+      const status = err.response.status;
+      if (status === 409 || status === 423 || status === 503) {
+        const patient = (err.response.data as { patientName?: unknown } | null)?.patientName;
+        return new ESPError(
+          'busy',
+          `Device is busy (HTTP ${status})`,
+          status,
+          typeof patient === 'string' ? patient : undefined
+        );
+      }
+      if (status === 401 || status === 403) {
+        return new ESPError('unauthorized', `Device rejected the request (HTTP ${status})`, status);
+      }
+      return new ESPError('http', `Device returned HTTP ${status}`, status);
+    }
+  }
+  return new ESPError('unreachable', (err as Error)?.message ?? 'Network error');
+};
+
+// What to tell the user for each failure — shown in SensorScreen's error card
+export const describeESPError = (err: unknown): string => {
+  const error = toESPError(err);
+  switch (error.kind) {
+    case 'unreachable':
+      return 'Cannot reach the device. Make sure the phone is on the same Wi-Fi as the oximeter and the IP matches the one on its screen.';
+    case 'timeout':
+      return 'The device is taking too long to respond. Move closer to the router, wait a moment and try again.';
+    case 'busy':
+      return error.busyWith
+        ? `Device busy with ${error.busyWith}. Wait for that measurement to finish, then try again.`
+        : 'The device is busy with another measurement. Wait for it to finish or cancel it first.';
+    case 'unauthorized':
+      return 'The device did not accept this phone. It may have been reset or paired with too many phones — pair it again to continue.';
+    case 'malformed':
+      return 'The device sent an unexpected response. Check that it is running the latest firmware.';
+    case 'aborted':
+      return 'The request was cancelled.';
+    case 'http':
+      if (error.status === 404) {
+        return 'The device does not support this yet. Update its firmware and try again.';
+      }
+      if (error.status === 400) {
+        return 'The device rejected the request. Check the values and try again.';
+      }
+      return `The device returned an error (HTTP ${error.status}). Try restarting the oximeter.`;
+  }
+};
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+const ESP_STATUSES: ESPStatus[] = ['idle', 'measuring', 'Normal', 'Warning', 'Critical'];
+const ESP_END_REASONS: ESPEndReason[] = ['none', 'complete', 'cancelled', 'fingerLifted'];
+
+const isIntInRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Checks a /data payload field by field — anything off is a malformed response
+export const parseESPData = (raw: unknown): ESPData => {
+  const fail = (reason: string): never => {
+    throw new ESPError('malformed', `Invalid device data: ${reason}`);
+  };
+  if (!raw || typeof raw !== 'object') fail('not a JSON object');
+  const d = raw as { [key: string]: unknown };
+
+  // Firmware accepts 40–220 bpm per window; 0 means no valid reading yet
+  if (!isIntInRange(d.heartRate, 0, 250)) fail(`heartRate ${d.heartRate}`);
+  if (!isIntInRange(d.spo2, 0, 100)) fail(`spo2 ${d.spo2}`);
+  if (!isIntInRange(d.totalSamples, 1, 20)) fail(`totalSamples ${d.totalSamples}`);
+  if (!isIntInRange(d.hrValid, 0, d.totalSamples as number)) fail(`hrValid ${d.hrValid}`);
+  if (!isIntInRange(d.spo2Valid, 0, d.totalSamples as number)) fail(`spo2Valid ${d.spo2Valid}`);
+  if (typeof d.running !== 'boolean') fail(`running ${d.running}`);
+  if (!ESP_STATUSES.includes(d.status as ESPStatus)) fail(`status ${d.status}`);
+
+  const readingsOk = (value: unknown, max: number) =>
+    value === undefined ||
+    (Array.isArray(value) &&
+      value.length === d.totalSamples &&
+      value.every((v) => isIntInRange(v, 0, max)));
+  if (!readingsOk(d.hrReadings, 250)) fail('hrReadings');
+  if (!readingsOk(d.spo2Readings, 100)) fail('spo2Readings');
+  if (
+    d.perfusion !== undefined &&
+    !(Array.isArray(d.perfusion) &&
+      d.perfusion.length === d.totalSamples &&
+      d.perfusion.every((v) => typeof v === 'number' && v >= 0 && v <= 100))
+  ) {
+    fail('perfusion');
+  }
+  if (d.sampleIndex !== undefined && !isIntInRange(d.sampleIndex, 0, d.totalSamples as number)) {
+    fail(`sampleIndex ${d.sampleIndex}`);
+  }
+  if (d.fingerPresent !== undefined && typeof d.fingerPresent !== 'boolean') {
+    fail(`fingerPresent ${d.fingerPresent}`);
+  }
+  if (d.endReason !== undefined && !ESP_END_REASONS.includes(d.endReason as ESPEndReason)) {
+    fail(`endReason ${d.endReason}`);
+  }
+  if (d.sessionId !== undefined && (typeof d.sessionId !== 'string' || d.sessionId.length > 32)) {
+    fail(`sessionId ${d.sessionId}`);
+  }
+  if (d.patientName !== undefined && typeof d.patientName !== 'string') {
+    fail(`patientName ${d.patientName}`);
+  }
+
+  return {
+    heartRate: d.heartRate as number,
+    spo2: d.spo2 as number,
+    hrValid: d.hrValid as number,
+    spo2Valid: d.spo2Valid as number,
+    totalSamples: d.totalSamples as number,
+    running: d.running as boolean,
+    status: d.status as ESPStatus,
+    ...(d.hrReadings !== undefined && { hrReadings: d.hrReadings as number[] }),
+    ...(d.spo2Readings !== undefined && { spo2Readings: d.spo2Readings as number[] }),
+    ...(d.perfusion !== undefined && { perfusion: d.perfusion as number[] }),
+    ...(d.sampleIndex !== undefined && { sampleIndex: d.sampleIndex as number }),
+    ...(d.fingerPresent !== undefined && { fingerPresent: d.fingerPresent as boolean }),
+    ...(d.endReason !== undefined && { endReason: d.endReason as ESPEndReason }),
+    ...(d.sessionId !== undefined && { sessionId: d.sessionId as string }),
+    ...(d.patientName !== undefined && { patientName: d.patientName as string }),
+  };
+};
+
+// ── Requests ──────────────────────────────────────────────────────────────────
+
+// Resolves after `ms`, or rejects with an `aborted` error as soon as the signal fires
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new ESPError('aborted', 'Request was aborted'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ESPError('aborted', 'Request was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with jitter: the ceiling doubles each attempt (up to maxMs)
+// and the actual wait is somewhere in its upper half, so phones that failed
+// together don't all retry at the same moment.
+export const backoffDelay = (attempt: number, baseMs: number, maxMs: number): number => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+// Retry helper — ESP8266 can occasionally miss a request under load.
+// Only network-level failures are retried; a bad payload won't fix itself,
+// and nothing is retried once the caller has aborted.
+const withRetry = async <T>(
+  fn: () => Promise<T>,
+  signal?: AbortSignal,
+  retries = 3,
+  baseDelayMs = 400
+): Promise<T> => {
   for (let i = 0; i < retries; i++) {
+    if (signal?.aborted) throw new ESPError('aborted', 'Request was aborted');
     try {
       return await fn();
     } catch (err) {
-      if (i === retries - 1) throw err;
-      console.warn(`[ESP] Retry ${i + 1}/${retries - 1}...`);
-      await new Promise(r => setTimeout(r, delayMs));
+      const error = toESPError(err);
+      if (!error.retriable || i === retries - 1 || signal?.aborted) throw error;
+      console.warn(`[ESP] Retry ${i + 1}/${retries - 1} after ${error.kind}...`);
+      await sleep(backoffDelay(i, baseDelayMs, 4000), signal);
     }
   }
   throw new Error('Unreachable');
 };
 
-export const fetchESPData = async (deviceIP: string): Promise<ESPData> => {
+export const fetchESPData = async (
+  deviceIP: string,
+  options: ESPRequestOptions = {}
+): Promise<ESPData> => {
   console.log(`[ESP] Fetching data from device at ${deviceIP}`);
   const url = `http://${deviceIP}/data`;
-  const res = await withRetry(() => esp.get<ESPData>(url));
-  console.log(`[ESP] Data received:`, res.data);
-  return res.data;
+  const res = await withRetry(() => esp.get<unknown>(url, requestConfig(options)), options.signal);
+  const data = parseESPData(res.data);
+  console.log(`[ESP] Data received:`, data);
+  return data;
 };
 
+// Resolves to the session ID the device issued, or null on firmware without sessions.
+// A device already measuring for someone else rejects this with a `busy` error.
 export const startMeasurement = async (
   deviceIP: string,
-  patientName?: string
-): Promise<void> => {
+  patientName?: string,
+  options: ESPRequestOptions = {}
+): Promise<string | null> => {
   console.log(`[ESP] Starting measurement on device ${deviceIP}`);
 
   const url = `http://${deviceIP}/start`;
   const payload = { name: patientName ?? "" };
 
   try {
-    const res = await withRetry(() => esp.post(url, payload));
+    const res = await withRetry(() => esp.post(url, payload, requestConfig(options)), options.signal);
     console.log(`[ESP] Response status: ${res.status}`);
-  } catch (error: any) {
-    console.log("[ESP] FULL ERROR OBJECT:");
-    console.log("message:", error?.message);
-    console.log("code:", error?.code);
-    console.log("config:", error?.config);
-    console.log("request:", error?.request);
-    console.log("response:", error?.response);
-    console.log("toJSON:", error?.toJSON?.());
-
-    throw error;
+    const sessionId = (res.data as { sessionId?: unknown } | null)?.sessionId;
+    return typeof sessionId === 'string' && sessionId !== '' ? sessionId : null;
+  } catch (error) {
+    const espError = toESPError(error);
+    console.warn(`[ESP] Start failed (${espError.kind}): ${espError.message}`);
+    throw espError;
   }
 };
 
-export const cancelMeasurement = async (deviceIP: string): Promise<void> => {
+// With a sessionId the device only cancels that session — not one another phone started
+export const cancelMeasurement = async (
+  deviceIP: string,
+  { sessionId, ...options }: ESPRequestOptions & { sessionId?: string | null } = {}
+): Promise<void> => {
   console.log(`[ESP] Cancelling measurement on device ${deviceIP}`);
   const url = `http://${deviceIP}/cancel`;
-  const res = await withRetry(() => esp.post(url));
+  const payload = sessionId ? { sessionId } : undefined;
+  const res = await withRetry(() => esp.post(url, payload, requestConfig(options)), options.signal);
   console.log(`[ESP] Response status: ${res.status}`);
-};
\ No newline at end of file
+};
+
+
+// ── Connection health ─────────────────────────────────────────────────────────
+
+export interface ConnectionHealth {
+  latencyMs: number | null;     // smoothed round trip of successful requests
+  consecutiveFailures: number;
+  lastSeen: Date | null;        // last time the device answered at all
+}
+
+export const INITIAL_HEALTH: ConnectionHealth = {
+  latencyMs: null,
+  consecutiveFailures: 0,
+  lastSeen: null,
+};
+
+// Stream messages count as contact but carry no round trip — pass no latency
+export const recordSuccess = (
+  health: ConnectionHealth,
+  latencyMs?: number,
+  at = new Date()
+): ConnectionHealth => ({
+  latencyMs:
+    latencyMs === undefined
+      ? health.latencyMs
+      : health.latencyMs === null
+        ? latencyMs
+        : Math.round(health.latencyMs * 0.7 + latencyMs * 0.3),
+  consecutiveFailures: 0,
+  lastSeen: at,
+});
+
+export const recordFailure = (health: ConnectionHealth): ConnectionHealth => ({
+  ...health,
+  consecutiveFailures: health.consecutiveFailures + 1,
+});
+
+// Bars for the signal badge — null until there's been any request at all
+export type SignalLevel = 0 | 1 | 2 | 3;
+
+export const signalLevel = (health: ConnectionHealth): SignalLevel | null => {
+  if (health.consecutiveFailures >= 3) return 0;
+  if (health.consecutiveFailures > 0) return 1;
+  if (health.latencyMs === null) return health.lastSeen ? 3 : null;
+  if (health.latencyMs < 300) return 3;
+  if (health.latencyMs < 1000) return 2;
+  return 1;
+};
+
+export const describeHealth = (health: ConnectionHealth, now = Date.now()): string => {
+  const level = signalLevel(health);
+  if (level === 0) {
+    if (!health.lastSeen) return 'No connection';
+    const secs = Math.max(1, Math.round((now - health.lastSeen.getTime()) / 1000));
+    return `Lost · seen ${secs} s ago`;
+  }
+  if (health.consecutiveFailures > 0) return 'Unstable';
+  const latency = health.latencyMs !== null ? ` · ${health.latencyMs} ms` : '';
+  if (level === 3) return `Good${latency}`;
+  if (level === 2) return `Fair${latency}`;
+  return `Slow${latency}`;
+};
+
+// Polling adapts to the device: a quick device is polled about once a second,
+// a slow one less often so requests don't pile up, and after failures the
+// interval backs off exponentially.
+export const POLL_LIMITS = { minMs: 1000, maxMs: 10000 };
+
+export const nextPollDelay = (health: ConnectionHealth, initialMs: number): number => {
+  if (health.consecutiveFailures > 0) {
+    return backoffDelay(health.consecutiveFailures, initialMs, POLL_LIMITS.maxMs * 2);
+  }
+  if (health.latencyMs === null) return initialMs;
+  return Math.min(POLL_LIMITS.maxMs, Math.max(POLL_LIMITS.minMs, health.latencyMs * 5));
+};
+
+// ── Device info & compatibility ───────────────────────────────────────────────
+
+// Protocol versions this build of the app understands.
+//   1 — original /start, /cancel, /data (firmware without /info)
+//   2 — adds /info, /config, the live stream and per-window/progress fields
+//   3 — adds /pair; everything except /info and /pair needs a token
+export const APP_PROTOCOL_VERSION = 3;
+export const MIN_PROTOCOL_VERSION = 1;
+
+export type DeviceFeature = 'stream' | 'samples' | 'progress' | 'config' | 'pairing' | 'sessions';
+
+export interface DeviceInfo {
+  firmwareVersion: string;
+  protocolVersion: number;
+  features: string[];
+  deviceId: string | null;
+}
+
+// What firmware without /info is assumed to be
+export const LEGACY_DEVICE_INFO: DeviceInfo = {
+  firmwareVersion: 'unknown',
+  protocolVersion: 1,
+  features: [],
+  deviceId: null,
+};
+
+export const parseDeviceInfo = (raw: unknown): DeviceInfo => {
+  const d = (raw ?? {}) as { [key: string]: unknown };
+  if (
+    typeof d.firmwareVersion !== 'string' ||
+    !isIntInRange(d.protocolVersion, 1, 1000) ||
+    !Array.isArray(d.features) ||
+    !d.features.every((f) => typeof f === 'string') ||
+    (d.deviceId !== undefined && typeof d.deviceId !== 'string')
+  ) {
+    throw new ESPError('malformed', 'Invalid device info');
+  }
+  return {
+    firmwareVersion: d.firmwareVersion,
+    protocolVersion: d.protocolVersion,
+    features: d.features as string[],
+    deviceId: (d.deviceId as string | undefined) ?? null,
+  };
+};
+
+// Firmware that predates /info answers 404 — that's protocol 1, not an error
+export const fetchDeviceInfo = async (
+  deviceIP: string,
+  { signal }: ESPRequestOptions = {}
+): Promise<DeviceInfo> => {
+  console.log(`[ESP] Reading device info from ${deviceIP}`);
+  try {
+    const res = await withRetry(() => esp.get<unknown>(`http://${deviceIP}/info`, { signal }), signal);
+    return parseDeviceInfo(res.data);
+  } catch (err) {
+    const error = toESPError(err);
+    if (error.kind === 'http' && error.status === 404) return LEGACY_DEVICE_INFO;
+    throw error;
+  }
+};
+
+export const supportsFeature = (info: DeviceInfo, feature: DeviceFeature) =>
+  info.features.includes(feature);
+
+export type Compatibility = { ok: true } | { ok: false; message: string };
+
+export const checkCompatibility = (info: DeviceInfo): Compatibility => {
+  if (info.protocolVersion > APP_PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      message: `This device runs firmware ${info.firmwareVersion} (protocol ${info.protocolVersion}), which is newer than this app supports. Update the app to keep measuring with it.`,
+    };
+  }
+  if (info.protocolVersion < MIN_PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      message: `This device runs firmware ${info.firmwareVersion}, which is too old for this app. Update the device firmware to protocol ${MIN_PROTOCOL_VERSION} or later.`,
+    };
+  }
+  return { ok: true };
+};
+
+// ── Device config ─────────────────────────────────────────────────────────────
+
+export interface DeviceConfig {
+  irFingerThreshold: number;   // IR level above which a finger counts as present
+  sampleCounts: number[];      // samples per window, one entry per window
+  displayIntervalMs: number;   // minimum time between OLED redraws
+}
+
+export const DEFAULT_DEVICE_CONFIG: DeviceConfig = {
+  irFingerThreshold: 50000,
+  sampleCounts: [50, 60, 70, 80, 90],
+  displayIntervalMs: 500,
+};
+
+// Must match handleSetConfig() in the firmware
+export const DEVICE_CONFIG_LIMITS = {
+  irFingerThreshold: { min: 5000, max: 250000 },
+  sampleCount: { min: 30, max: 90 },
+  windows: 5,
+  displayIntervalMs: { min: 100, max: 5000 },
+};
+
+// Field → problem, empty when the config is acceptable to the device
+export const validateDeviceConfig = (config: DeviceConfig): { [field: string]: string } => {
+  const L = DEVICE_CONFIG_LIMITS;
+  const errors: { [field: string]: string } = {};
+  if (!isIntInRange(config.irFingerThreshold, L.irFingerThreshold.min, L.irFingerThreshold.max)) {
+    errors.irFingerThreshold = `Whole number between ${L.irFingerThreshold.min} and ${L.irFingerThreshold.max}`;
+  }
+  if (config.sampleCounts.length !== L.windows) {
+    errors.sampleCounts = `Exactly ${L.windows} windows are required`;
+  } else if (!config.sampleCounts.every((n) => isIntInRange(n, L.sampleCount.min, L.sampleCount.max))) {
+    errors.sampleCounts = `Each window needs ${L.sampleCount.min}–${L.sampleCount.max} samples`;
+  }
+  if (!isIntInRange(config.displayIntervalMs, L.displayIntervalMs.min, L.displayIntervalMs.max)) {
+    errors.displayIntervalMs = `Between ${L.displayIntervalMs.min} and ${L.displayIntervalMs.max} ms`;
+  }
+  return errors;
+};
+
+export const parseDeviceConfig = (raw: unknown): DeviceConfig => {
+  const d = (raw ?? {}) as { [key: string]: unknown };
+  const config = {
+    irFingerThreshold: d.irFingerThreshold,
+    sampleCounts: Array.isArray(d.sampleCounts) ? d.sampleCounts : [],
+    displayIntervalMs: d.displayIntervalMs,
+  } as DeviceConfig;
+  const problems = Object.keys(validateDeviceConfig(config));
+  if (problems.length > 0) {
+    throw new ESPError('malformed', `Invalid device config: ${problems.join(', ')}`);
+  }
+  return config;
+};
+
+export const fetchDeviceConfig = async (
+  deviceIP: string,
+  options: ESPRequestOptions = {}
+): Promise<DeviceConfig> => {
+  console.log(`[ESP] Reading config from ${deviceIP}`);
+  const res = await withRetry(
+    () => esp.get<unknown>(`http://${deviceIP}/config`, requestConfig(options)),
+    options.signal
+  );
+  return parseDeviceConfig(res.data);
+};
+
+// Rejected with a `busy` error while a measurement is running
+export const updateDeviceConfig = async (
+  deviceIP: string,
+  changes: Partial<DeviceConfig>,
+  options: ESPRequestOptions = {}
+): Promise<DeviceConfig> => {
+  console.log(`[ESP] Updating config on ${deviceIP}:`, changes);
+  const res = await withRetry(
+    () => esp.post<unknown>(`http://${deviceIP}/config`, changes, requestConfig(options)),
+    options.signal
+  );
+  return parseDeviceConfig(res.data);
+};
+
+export const resetDeviceConfig = async (
+  deviceIP: string,
+  options: ESPRequestOptions = {}
+): Promise<DeviceConfig> => {
+  console.log(`[ESP] Restoring default config on ${deviceIP}`);
+  const res = await withRetry(
+    () => esp.post<unknown>(`http://${deviceIP}/config/reset`, undefined, requestConfig(options)),
+    options.signal
+  );
+  return parseDeviceConfig(res.data);
+};
+
+// ── Pairing ───────────────────────────────────────────────────────────────────
+//
+//   POST /pair/request   → device shows a 6-digit PIN for two minutes — 429 while
+//                          locked out after too many wrong PINs
+//   POST /pair {"pin"}   → {"token": "..."} — 403 for a wrong PIN, 410 once the
+//                          window has closed (or after too many wrong PINs)
+//
+// Not retried: every wrong attempt counts against the PIN.
+
+export const requestPairing = async (
+  deviceIP: string,
+  { signal }: ESPRequestOptions = {}
+): Promise<void> => {
+  console.log(`[ESP] Requesting pairing PIN on ${deviceIP}`);
+  try {
+    await esp.post(`http://${deviceIP}/pair/request`, undefined, { signal });
+  } catch (err) {
+    throw toESPError(err);
+  }
+};
+
+export const pairWithDevice = async (
+  deviceIP: string,
+  pin: string,
+  { signal }: ESPRequestOptions = {}
+): Promise<string> => {
+  console.log(`[ESP] Pairing with ${deviceIP}`);
+  let res;
+  try {
+    res = await esp.post<unknown>(`http://${deviceIP}/pair`, { pin: pin.trim() }, { signal });
+  } catch (err) {
+    throw toESPError(err);
+  }
+  const token = (res.data as { token?: unknown } | null)?.token;
+  if (typeof token !== 'string' || token.length === 0) {
+    throw new ESPError('malformed', 'Pairing response has no token');
+  }
+  return token;
+};
+
+// What to show under the PIN field when pairing fails
+export const describePairingError = (err: unknown): string => {
+  const error = toESPError(err);
+  if (error.kind === 'unauthorized') return 'That PIN does not match the one on the device screen.';
+  if (error.kind === 'http' && error.status === 410) {
+    return 'The PIN has expired. Show a new PIN on the device and try again.';
+  }
+  if (error.kind === 'http' && error.status === 429) {
+    return 'Too many wrong PINs. Pairing is locked for a few minutes — try again later.';
+  }
+  return describeESPError(error);
+};
+
+// ── Live stream ───────────────────────────────────────────────────────────────
+//
+// Firmware that supports it pushes updates over a WebSocket on the HTTP port + 1
+// (81 on the device). Every message is one JSON object:
+//
+//   { "type": "status", "data": <same shape as GET /data> }
+//       on connect and whenever running/status changes
+//   { "type": "sample", "index": 2, "total": 5, "heartRate": 74, "spo2": 97 }
+//       after each sample window (index is 1-based, values 0 if the window was rejected)
+//
+// Older firmware has no stream — the connection fails and callers fall back to polling.
+
+export interface ESPSample {
+  index: number;
+  total: number;
+  heartRate: number;
+  spo2: number;
+}
+
+export type ESPStreamMessage =
+  | { type: 'status'; data: ESPData }
+  | ({ type: 'sample' } & ESPSample);
+
+export interface ESPStreamHandlers {
+  onStatus: (data: ESPData) => void;
+  onSample?: (sample: ESPSample) => void;
+  // Called once; `error` is null when the stream was closed by us
+  onClose: (error: ESPError | null) => void;
+}
+
+export interface ESPStream {
+  close: () => void;
+}
+
+// "192.168.1.50" → ws://192.168.1.50:81/, "10.0.0.2:8080" → ws://10.0.0.2:8081/
+// The token goes in the query string — React Native's WebSocket can't set headers
+export const streamURL = (deviceIP: string, token?: string | null): string => {
+  const [host, port] = deviceIP.split(':');
+  const query = token ? `?token=${encodeURIComponent(token)}` : '';
+  return `ws://${host}:${(port ? Number(port) : 80) + 1}/${query}`;
+};
+
+export const parseStreamMessage = (raw: string): ESPStreamMessage => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new ESPError('malformed', 'Stream message is not JSON');
+  }
+  const msg = parsed && typeof parsed === 'object' ? (parsed as { [key: string]: unknown }) : {};
+  if (msg.type === 'status') return { type: 'status', data: parseESPData(msg.data) };
+  if (
+    msg.type === 'sample' &&
+    isIntInRange(msg.total, 1, 20) &&
+    isIntInRange(msg.index, 1, msg.total as number) &&
+    isIntInRange(msg.heartRate, 0, 250) &&
+    isIntInRange(msg.spo2, 0, 100)
+  ) {
+    return {
+      type: 'sample',
+      index: msg.index as number,
+      total: msg.total as number,
+      heartRate: msg.heartRate as number,
+      spo2: msg.spo2 as number,
+    };
+  }
+  throw new ESPError('malformed', `Unexpected stream message: ${raw.slice(0, 80)}`);
+};
+
+export const openESPStream = (
+  deviceIP: string,
+  handlers: ESPStreamHandlers,
+  { token, signal, connectTimeoutMs = 2000 }: ESPRequestOptions & { connectTimeoutMs?: number } = {}
+): ESPStream => {
+  const url = streamURL(deviceIP, token);
+  console.log(`[ESP] Opening stream ${streamURL(deviceIP)}`);
+
+  const ws = new WebSocket(url);
+  let closed = false;
+
+  const finish = (error: ESPError | null) => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(connectTimer);
+    signal?.removeEventListener('abort', onAbort);
+    ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+    try { ws.close(); } catch {}
+    if (error) console.warn(`[ESP] Stream closed (${error.kind}): ${error.message}`);
+    handlers.onClose(error);
+  };
+
+  const connectTimer = setTimeout(
+    () => finish(new ESPError('timeout', 'Stream did not connect in time')),
+    connectTimeoutMs
+  );
+
+  ws.onopen = () => clearTimeout(connectTimer);
+  ws.onmessage = (event) => {
+    try {
+      const msg = parseStreamMessage(String(event.data));
+      if (msg.type === 'status') handlers.onStatus(msg.data);
+      else handlers.onSample?.(msg);
+    } catch (err) {
+      console.warn('[ESP] Ignoring stream message:', (err as Error).message);
+    }
+  };
+  ws.onerror = () => finish(new ESPError('unreachable', 'Stream connection failed'));
+  ws.onclose = () => finish(new ESPError('unreachable', 'Stream closed by device'));
+
+  // Aborting counts as closing it ourselves — no further handler calls
+  const onAbort = () => finish(null);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) finish(null);
+
+  return { close: () => finish(null) };
+};
+
+// ── Discovery ─────────────────────────────────────────────────────────────────
+
+export interface DiscoveredDevice {
+  ip: string;
+  // null for a paired device that won't share its status until this phone pairs
+  data: ESPData | null;
+}
+
+export interface DiscoveryOptions {
+  port?: number;          // firmware listens on 80; the simulator usually doesn't
+  timeoutMs?: number;     // per-host probe timeout
+  concurrency?: number;   // probes in flight at once
+  onFound?: (device: DiscoveredDevice) => void;
+  signal?: AbortSignal;   // stops the scan; discoverDevices then rejects with `aborted`
+}
+
+// "192.168.1.23" → "192.168.1"
+export const subnetOf = (ip: string): string | null => {
+  const match = ip.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}$/);
+  return match ? `${match[1]}.${match[2]}.${match[3]}` : null;
+};
+
+// Single /data request, no retries — used for discovery and "is it there?" checks.
+// Anything that isn't a valid payload (e.g. a random web server on the LAN) is null.
+export const probeDevice = async (
+  deviceIP: string,
+  timeoutMs = 1500,
+  options: ESPRequestOptions = {}
+): Promise<ESPData | null> => {
+  try {
+    const res = await esp.get<unknown>(`http://${deviceIP}/data`, {
+      ...requestConfig(options),
+      timeout: timeoutMs,
+    });
+    return parseESPData(res.data);
+  } catch {
+    return null;
+  }
+};
+
+// Like probeDevice, but also counts a device that answers /data with the
+// firmware's own 401 body — it's ours, just not paired with this phone yet
+const probeForDiscovery = async (
+  ip: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<DiscoveredDevice | null> => {
+  try {
+    const res = await esp.get<unknown>(`http://${ip}/data`, { timeout: timeoutMs, signal });
+    return { ip, data: parseESPData(res.data) };
+  } catch (err) {
+    const body = axios.isAxiosError(err) ? err.response : undefined;
+    if (body?.status === 401 && (body.data as { error?: unknown } | null)?.error === 'unauthorized') {
+      return { ip, data: null };
+    }
+    return null;
+  }
+};
+
+export const discoverDevices = async (
+  subnet: string,
+  { port = 80, timeoutMs = 1200, concurrency = 24, onFound, signal }: DiscoveryOptions = {}
+): Promise<DiscoveredDevice[]> => {
+  console.log(`[ESP] Scanning ${subnet}.1-254 for devices`);
+  const hosts = Array.from({ length: 254 }, (_, i) =>
+    port === 80 ? `${subnet}.${i + 1}` : `${subnet}.${i + 1}:${port}`
+  );
+  const found: DiscoveredDevice[] = [];
+
+  let next = 0;
+  const worker = async () => {
+    while (next < hosts.length && !signal?.aborted) {
+      const ip = hosts[next++];
+      const device = await probeForDiscovery(ip, timeoutMs, signal);
+      if (device && !signal?.aborted) {
+        found.push(device);
+        onFound?.(device);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  if (signal?.aborted) throw new ESPError('aborted', 'Discovery was aborted');
+
+  console.log(`[ESP] Discovery finished — ${found.length} device(s)`);
+  return found.sort((a, b) => a.ip.localeCompare(b.ip, undefined, { numeric: true }));
+};
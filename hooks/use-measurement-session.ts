@@ -0,0 +1,403 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  cancelMeasurement,
+  ConnectionHealth,
+  describeESPError,
+  ESPData,
+  ESPError,
+  ESPSample,
+  ESPStream,
+  fetchESPData,
+  INITIAL_HEALTH,
+  nextPollDelay,
+  openESPStream,
+  recordFailure,
+  recordSuccess,
+  startMeasurement,
+} from '@/esp';
+import { newRecordId } from '@/outbox';
+
+/**
+ * One measurement on the oximeter, from tapping Start to the record being saved.
+ *
+ *   idle → starting → measuring → completing → saved
+ *                 ↘          ↘            ↘
+ *                  failed / cancelled      failed
+ *
+ * A measurement the device gives up on (finger lifted, cancelled from the
+ * device side) goes straight from measuring to failed with reason `aborted`.
+ * A device that stops accepting this phone's pairing token fails with
+ * `unauthorized` from either starting or measuring.
+ *
+ * On firmware with sessions, every status is checked against the session ID
+ * /start returned. A reading from anyone else's session fails with `conflict`
+ * and is never passed to onComplete.
+ *
+ * Each start gets a fresh client-generated measurement ID, and every save of
+ * that measurement — including retries — passes the same ID and completion
+ * time to onComplete, so saving twice writes the same record twice rather than
+ * two records.
+ *
+ * Every change goes through `transition`, so events that arrive in the wrong
+ * phase (a late poll after cancel, a second "finished" response) are ignored.
+ * Each session also owns an AbortController: cancel, a new start or unmounting
+ * aborts it, which stops in-flight requests, retries and the live stream, so a
+ * cancelled session can never reach onComplete.
+ */
+
+export type SessionPhase =
+  | 'idle'
+  | 'starting'
+  | 'measuring'
+  | 'completing'
+  | 'saved'
+  | 'failed'
+  | 'cancelled';
+
+// Why a session ended up in `failed`
+export type FailureReason = 'start' | 'aborted' | 'unauthorized' | 'conflict' | 'invalid' | 'save';
+
+export type SessionState = {
+  phase: SessionPhase;
+  data: ESPData | null;
+  // Latest sample window reported over the live stream
+  progress: ESPSample | null;
+  error: string;
+  failure: FailureReason | null;
+};
+
+export type SessionEvent =
+  | { type: 'START' }
+  | { type: 'STARTED' }
+  | { type: 'DATA'; data: ESPData }
+  | { type: 'SAMPLE'; sample: ESPSample }
+  | { type: 'POLL_ERROR'; message: string }
+  | { type: 'FINISHED'; data: ESPData }
+  | { type: 'SAVED' }
+  | { type: 'FAIL'; reason: FailureReason; message: string }
+  | { type: 'RETRY_SAVE' }
+  | { type: 'CANCEL' };
+
+export const initialSessionState: SessionState = {
+  phase: 'idle',
+  data: null,
+  progress: null,
+  error: '',
+  failure: null,
+};
+
+const isSettled = (phase: SessionPhase) =>
+  phase === 'idle' || phase === 'saved' || phase === 'failed' || phase === 'cancelled';
+
+// Pure state machine — returns the same object when the event doesn't apply
+export function transition(state: SessionState, event: SessionEvent): SessionState {
+  switch (event.type) {
+    case 'START':
+      return isSettled(state.phase) ? { ...initialSessionState, phase: 'starting' } : state;
+    case 'STARTED':
+      return state.phase === 'starting' ? { ...state, phase: 'measuring' } : state;
+    case 'DATA':
+      return state.phase === 'measuring' ? { ...state, data: event.data, error: '' } : state;
+    case 'SAMPLE':
+      return state.phase === 'measuring' ? { ...state, progress: event.sample } : state;
+    case 'POLL_ERROR':
+      return state.phase === 'measuring' ? { ...state, error: event.message } : state;
+    case 'FINISHED':
+      return state.phase === 'measuring'
+        ? { ...state, phase: 'completing', data: event.data, error: '' }
+        : state;
+    case 'SAVED':
+      return state.phase === 'completing' ? { ...state, phase: 'saved' } : state;
+    case 'FAIL': {
+      const from: { [reason in FailureReason]: SessionPhase[] } = {
+        start: ['starting'],
+        aborted: ['measuring'],
+        unauthorized: ['starting', 'measuring'],
+        conflict: ['measuring', 'completing'],
+        invalid: ['completing'],
+        save: ['completing'],
+      };
+      const allowed = from[event.reason].includes(state.phase);
+      return allowed
+        ? { ...state, phase: 'failed', failure: event.reason, error: event.message }
+        : state;
+    }
+    case 'RETRY_SAVE':
+      return state.phase === 'failed' && state.failure === 'save'
+        ? { ...state, phase: 'completing', failure: null, error: '' }
+        : state;
+    case 'CANCEL':
+      return state.phase === 'starting' || state.phase === 'measuring'
+        ? { ...initialSessionState, phase: 'cancelled' }
+        : state;
+  }
+}
+
+// Why a status can't be ours, or null if it is (or the firmware can't tell)
+export function sessionConflict(data: ESPData, ownSessionId: string | null): string | null {
+  if (!ownSessionId || data.sessionId === undefined || data.sessionId === ownSessionId) return null;
+  return data.patientName
+    ? `Device busy with ${data.patientName} — this reading belongs to another session and was not saved.`
+    : 'Another phone started a measurement on this device — this reading was not saved.';
+}
+
+// ── Hook ──────────────────────────────────────────────────────────────────────
+
+export type ESPClient = {
+  fetchESPData: typeof fetchESPData;
+  startMeasurement: typeof startMeasurement;
+  cancelMeasurement: typeof cancelMeasurement;
+  // Optional — without it the session always polls
+  openESPStream?: typeof openESPStream;
+};
+
+const defaultClient: ESPClient = { fetchESPData, startMeasurement, cancelMeasurement, openESPStream };
+
+// A single missed poll is common on a busy ESP8266 — only report an error
+// once several in a row have failed, so the screen doesn't flicker
+const FAILURES_BEFORE_ERROR = 3;
+
+// Identifies one measurement's record — the same on every save attempt
+export type MeasurementIdentity = { id: string; completedAt: Date };
+
+export type MeasurementSessionOptions = {
+  deviceIP: string;
+  patientName?: string;
+  // Persist the finished reading; throwing moves the session to `failed`
+  onComplete: (data: ESPData, measurement: MeasurementIdentity) => Promise<void>;
+  // Readings that fail this are not passed to onComplete
+  isValid?: (data: ESPData) => boolean;
+  // First poll interval when the device has no live stream, or the stream
+  // drops — later intervals adapt to the device's latency (see nextPollDelay)
+  pollIntervalMs?: number;
+  client?: ESPClient;
+};
+
+export function useMeasurementSession(options: MeasurementSessionOptions) {
+  const [state, setState] = useState<SessionState>(initialSessionState);
+  const [health, setHealth] = useState<ConnectionHealth>(INITIAL_HEALTH);
+
+  // Latest options without re-creating callbacks — polls always use the current IP
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const stateRef = useRef(state);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const streamRef = useRef<ESPStream | null>(null);
+  // Pairing token for the current session, passed to start()
+  const tokenRef = useRef<string | null>(null);
+  // Session ID the device issued for our /start — null on firmware without sessions
+  const deviceSessionRef = useRef<string | null>(null);
+  // Bumped on every start/cancel so responses from an old session are dropped
+  const sessionRef = useRef(0);
+  // Record identity of the current session — completedAt is set on the first save
+  const measurementRef = useRef<{ id: string; completedAt: Date | null } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const healthRef = useRef(health);
+  const updateHealth = useCallback((update: (health: ConnectionHealth) => ConnectionHealth) => {
+    healthRef.current = update(healthRef.current);
+    setHealth(healthRef.current);
+    return healthRef.current;
+  }, []);
+
+  const send = useCallback((event: SessionEvent): boolean => {
+    const next = transition(stateRef.current, event);
+    if (next === stateRef.current) return false;
+    stateRef.current = next;
+    setState(next);
+    return true;
+  }, []);
+
+  const stopUpdates = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.close();
+    streamRef.current = null;
+  };
+
+  const save = useCallback(async (data: ESPData, session: number) => {
+    if (session !== sessionRef.current) return;
+    const { onComplete, isValid } = optionsRef.current;
+    const conflict = sessionConflict(data, deviceSessionRef.current);
+    if (conflict) {
+      send({ type: 'FAIL', reason: 'conflict', message: conflict });
+      return;
+    }
+    if (isValid && !isValid(data)) {
+      send({ type: 'FAIL', reason: 'invalid', message: 'Not saved — invalid reading' });
+      return;
+    }
+    const measurement = measurementRef.current;
+    if (!measurement) return;
+    if (!measurement.completedAt) measurement.completedAt = new Date();
+    try {
+      await onComplete(data, { id: measurement.id, completedAt: measurement.completedAt });
+      if (session === sessionRef.current) send({ type: 'SAVED' });
+    } catch {
+      if (session === sessionRef.current) {
+        send({ type: 'FAIL', reason: 'save', message: 'Save failed' });
+      }
+    }
+  }, [send]);
+
+  // Shared by the stream and the poller — returns true once the device has finished
+  const handleStatus = useCallback((res: ESPData, session: number): boolean => {
+    if (session !== sessionRef.current) return true;
+    const conflict = sessionConflict(res, deviceSessionRef.current);
+    if (conflict) {
+      send({ type: 'FAIL', reason: 'conflict', message: conflict });
+      return true;
+    }
+    if (!res.running && (res.endReason === 'fingerLifted' || res.endReason === 'cancelled')) {
+      send({
+        type: 'FAIL',
+        reason: 'aborted',
+        message: res.endReason === 'fingerLifted'
+          ? 'Measurement stopped — the finger was lifted from the sensor. Place it back firmly and start again.'
+          : 'Measurement was cancelled on the device.',
+      });
+      return true;
+    }
+    if (!res.running && res.totalSamples > 0) {
+      // Only the first finished response moves us on to completing
+      if (send({ type: 'FINISHED', data: res })) save(res, session);
+      return true;
+    }
+    send({ type: 'DATA', data: res });
+    return false;
+  }, [send, save]);
+
+  const poll = useCallback(async (session: number, signal: AbortSignal) => {
+    const { deviceIP, client = defaultClient, pollIntervalMs = 3000 } = optionsRef.current;
+    const sentAt = Date.now();
+    try {
+      const res = await client.fetchESPData(deviceIP, { token: tokenRef.current, signal });
+      if (signal.aborted) return;
+      updateHealth((h) => recordSuccess(h, Date.now() - sentAt));
+      if (handleStatus(res, session)) return;
+    } catch (err) {
+      if (signal.aborted || session !== sessionRef.current) return;
+      // Polling again won't fix a rejected token — the phone has to pair again
+      if (err instanceof ESPError && err.kind === 'unauthorized') {
+        send({ type: 'FAIL', reason: 'unauthorized', message: describeESPError(err) });
+        return;
+      }
+      const { consecutiveFailures } = updateHealth(recordFailure);
+      if (consecutiveFailures >= FAILURES_BEFORE_ERROR) {
+        send({ type: 'POLL_ERROR', message: describeESPError(err) });
+      }
+    }
+    // Next poll is only scheduled once this one has settled, so requests never overlap
+    if (session === sessionRef.current && stateRef.current.phase === 'measuring') {
+      const delay = nextPollDelay(healthRef.current, pollIntervalMs);
+      timerRef.current = setTimeout(() => poll(session, signal), delay);
+    }
+  }, [send, handleStatus, updateHealth]);
+
+  // Prefer the live stream; fall back to polling if it can't connect or drops
+  const startUpdates = useCallback((session: number, signal: AbortSignal) => {
+    const { deviceIP, client = defaultClient, pollIntervalMs = 3000 } = optionsRef.current;
+    const fallBack = (delayMs: number) => {
+      timerRef.current = setTimeout(() => poll(session, signal), delayMs);
+    };
+    if (!client.openESPStream) return fallBack(pollIntervalMs);
+
+    streamRef.current = client.openESPStream(deviceIP, {
+      onStatus: (res) => {
+        updateHealth((h) => recordSuccess(h));
+        if (handleStatus(res, session)) {
+          streamRef.current?.close();
+          streamRef.current = null;
+        }
+      },
+      onSample: (sample) => {
+        if (session !== sessionRef.current) return;
+        updateHealth((h) => recordSuccess(h));
+        send({ type: 'SAMPLE', sample });
+      },
+      onClose: (error) => {
+        streamRef.current = null;
+        if (error && session === sessionRef.current && stateRef.current.phase === 'measuring') {
+          console.log('[Session] Live stream unavailable — polling instead');
+          fallBack(0);
+        }
+      },
+    }, { token: tokenRef.current, signal });
+  }, [send, poll, handleStatus, updateHealth]);
+
+  // Resolves to true once the device has accepted /start. `token` is sent with
+  // every request of this session; leave it out for devices without pairing.
+  const start = useCallback(async (token: string | null = null): Promise<boolean> => {
+    if (!send({ type: 'START' })) return false;
+    const session = ++sessionRef.current;
+    stopUpdates();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    tokenRef.current = token;
+    deviceSessionRef.current = null;
+    measurementRef.current = { id: newRecordId(), completedAt: null };
+    updateHealth(() => INITIAL_HEALTH);
+    const { deviceIP, patientName, client = defaultClient } = optionsRef.current;
+    const sentAt = Date.now();
+    try {
+      const deviceSession = await client.startMeasurement(deviceIP, patientName, {
+        token,
+        signal: controller.signal,
+      });
+      if (session === sessionRef.current) {
+        deviceSessionRef.current = deviceSession;
+        updateHealth((h) => recordSuccess(h, Date.now() - sentAt));
+      }
+    } catch (err) {
+      if (!controller.signal.aborted && session === sessionRef.current) {
+        updateHealth(recordFailure);
+        const reason = err instanceof ESPError && err.kind === 'unauthorized' ? 'unauthorized' : 'start';
+        send({ type: 'FAIL', reason, message: describeESPError(err) });
+      }
+      return false;
+    }
+    if (controller.signal.aborted || session !== sessionRef.current || !send({ type: 'STARTED' })) {
+      return false;
+    }
+    startUpdates(session, controller.signal);
+    return true;
+  }, [send, startUpdates, updateHealth]);
+
+  const cancel = useCallback(async () => {
+    if (!send({ type: 'CANCEL' })) return;
+    sessionRef.current++;
+    stopUpdates();
+    const { deviceIP, client = defaultClient } = optionsRef.current;
+    try {
+      await client.cancelMeasurement(deviceIP, {
+        token: tokenRef.current,
+        sessionId: deviceSessionRef.current,
+      });
+    } catch {}
+  }, [send]);
+
+  const retrySave = useCallback(() => {
+    const data = stateRef.current.data;
+    if (data && send({ type: 'RETRY_SAVE' })) save(data, sessionRef.current);
+  }, [send, save]);
+
+  useEffect(() => () => {
+    sessionRef.current++;
+    stopUpdates();
+  }, []);
+
+  return {
+    ...state,
+    health,
+    active: state.phase === 'starting' || state.phase === 'measuring',
+    start,
+    cancel,
+    retrySave,
+  };
+}
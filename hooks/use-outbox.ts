@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import * as Network from 'expo-network';
+
+import { flushOutbox, getOutbox, PendingRecord, subscribeOutbox } from '@/outbox';
+
+// Readings still waiting to reach Firestore, kept up to date
+export function useOutbox(): PendingRecord[] {
+  const [entries, setEntries] = useState<PendingRecord[]>([]);
+  useEffect(() => subscribeOutbox(setEntries), []);
+  return entries;
+}
+
+/**
+ * Background sync for the outbox — mount once, near the root. Flushes on
+ * launch, whenever the network comes back or the app returns to the
+ * foreground, and every `intervalMs` while anything is still queued.
+ */
+export function useOutboxSync(intervalMs = 60000) {
+  useEffect(() => {
+    const flush = () => {
+      flushOutbox().catch((err) => console.warn('[Outbox] Flush failed:', err));
+    };
+
+    flush();
+    const network = Network.addNetworkStateListener(({ isInternetReachable }) => {
+      if (isInternetReachable) flush();
+    });
+    const appState = AppState.addEventListener('change', (state) => {
+      if (state === 'active') flush();
+    });
+    const timer = setInterval(async () => {
+      if ((await getOutbox()).some((e) => !e.failed)) flush();
+    }, intervalMs);
+
+    return () => {
+      network.remove();
+      appState.remove();
+      clearInterval(timer);
+    };
+  }, [intervalMs]);
+}
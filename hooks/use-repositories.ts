@@ -0,0 +1,9 @@
+import { useContext } from 'react';
+
+import { Repositories, RepositoriesContext } from '@/repositories';
+
+// Patient and record storage for the current tree — Firestore unless a
+// RepositoriesContext provider says otherwise
+export function useRepositories(): Repositories {
+  return useContext(RepositoriesContext);
+}
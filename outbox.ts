@@ -0,0 +1,183 @@
+// Offline-first queue for finished measurements.
+//
+// A completed reading is written here (AsyncStorage) before anything else, so it
+// survives a missing internet connection — common, since the phone is usually
+// joined to the oximeter's Wi-Fi — and leaving the screen. flushOutbox() then
+// writes each entry to Firestore under its own client-generated ID, so an entry
+// sent twice (a retry after a lost acknowledgement, two flushes racing) still
+// ends up as a single document.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { firestoreRepositories, NewMeasurementRecord } from './repositories';
+
+export interface PendingRecord {
+  id: string;              // Firestore document ID, fixed when the entry is queued
+  uid: string;
+  patientId: string;
+  // Fields as they'll be written — measuredAt is kept as an ISO string while queued
+  record: Omit<NewMeasurementRecord, 'measuredAt'> & { measuredAt: string };
+  queuedAt: string;
+  attempts: number;
+  lastError: string | null;
+  // Firestore refused the write for good, or it kept failing: no longer sent
+  // until the user retries or discards it. Missing on entries from older versions.
+  failed?: boolean;
+}
+
+export type FlushResult = { synced: number; remaining: number; failed: number };
+
+const OUTBOX_KEY = 'record_outbox';
+// Firestore's write promise only settles once the server acknowledges it,
+// which never happens offline
+const WRITE_TIMEOUT_MS = 10000;
+// Errors other than being offline, before an entry is given up on
+const MAX_ATTEMPTS = 10;
+
+// ── Storage ───────────────────────────────────────────────────────────────────
+
+let cache: PendingRecord[] | null = null;
+// Read-modify-write calls run one after another so none overwrites another's change
+let writes: Promise<unknown> = Promise.resolve();
+const listeners = new Set<(entries: PendingRecord[]) => void>();
+
+const read = async (): Promise<PendingRecord[]> => {
+  if (cache) return cache;
+  try {
+    const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+    cache = raw ? JSON.parse(raw) : [];
+  } catch (err) {
+    console.error('[Outbox] Could not read queue:', err);
+    cache = [];
+  }
+  return cache!;
+};
+
+const mutate = (update: (entries: PendingRecord[]) => PendingRecord[]): Promise<PendingRecord[]> => {
+  const run = writes.then(async () => {
+    const next = update(await read());
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(next));
+    cache = next;
+    listeners.forEach((listener) => listener(next));
+    return next;
+  });
+  writes = run.catch(() => {});
+  return run;
+};
+
+export const getOutbox = () => read();
+
+// Called straight away with the current queue, then on every change
+export const subscribeOutbox = (listener: (entries: PendingRecord[]) => void) => {
+  listeners.add(listener);
+  read().then((entries) => listeners.has(listener) && listener(entries));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// 20 characters from the same alphabet as Firestore's auto IDs
+const ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+export const newRecordId = () =>
+  Array.from({ length: 20 }, () => ID_CHARS[Math.floor(Math.random() * ID_CHARS.length)]).join('');
+
+// Queuing an ID that's already waiting is a no-op; one that has already synced
+// is written again with the same contents
+export const enqueueRecord = (entry: Pick<PendingRecord, 'id' | 'uid' | 'patientId' | 'record'>) =>
+  mutate((entries) =>
+    entries.some((e) => e.id === entry.id)
+      ? entries
+      : [...entries, { ...entry, queuedAt: new Date().toISOString(), attempts: 0, lastError: null, failed: false }]
+  );
+
+export const pendingFor = (entries: PendingRecord[], patientId: string) =>
+  entries.filter((e) => e.patientId === patientId);
+
+export const failedEntries = (entries: PendingRecord[]) => entries.filter((e) => e.failed);
+
+// Sends entries that had failed again on the next flush, e.g. after signing back in
+export const retryFailed = () =>
+  mutate((entries) => entries.map((e) => (e.failed ? { ...e, failed: false, attempts: 0 } : e)));
+
+// Drops the readings that will never sync — they're gone from this phone too
+export const discardFailed = () => mutate((entries) => entries.filter((e) => !e.failed));
+
+// ── Sync ──────────────────────────────────────────────────────────────────────
+
+class WriteTimeoutError extends Error {
+  constructor() {
+    super('Firestore did not acknowledge the write in time');
+    this.name = 'WriteTimeoutError';
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new WriteTimeoutError()), ms);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (err) => { clearTimeout(timer); reject(err); }
+    );
+  });
+
+const errorCode = (err: unknown) => (err as { code?: unknown } | null)?.code;
+
+// No connection — every other entry would fail the same way
+const isOffline = (err: unknown) => err instanceof WriteTimeoutError || errorCode(err) === 'unavailable';
+
+// The server rejected this write itself (security rules, a malformed record):
+// sending it again would only be rejected again
+const PERMANENT_CODES = ['permission-denied', 'invalid-argument', 'failed-precondition', 'out-of-range'];
+const isPermanent = (err: unknown) => PERMANENT_CODES.includes(errorCode(err) as string);
+
+let flushing: Promise<FlushResult> | null = null;
+
+const runFlush = async (): Promise<FlushResult> => {
+  const entries = (await read()).filter((e) => !e.failed);
+  let synced = 0;
+  for (const entry of entries) {
+    try {
+      await withTimeout(
+        firestoreRepositories.records.save(entry.uid, entry.patientId, entry.id, {
+          ...entry.record,
+          // Entries queued by an older version of the app may not have these
+          severity: entry.record.severity ?? null,
+          assessmentVersion: entry.record.assessmentVersion ?? null,
+          quality: entry.record.quality ?? null,
+          measuredAt: new Date(entry.record.measuredAt),
+        }),
+        WRITE_TIMEOUT_MS
+      );
+      await mutate((list) => list.filter((e) => e.id !== entry.id));
+      synced++;
+    } catch (err) {
+      const message = (err as Error)?.message ?? String(err);
+      console.warn(`[Outbox] Could not sync ${entry.id}: ${message}`);
+      const offline = isOffline(err);
+      await mutate((list) =>
+        list.map((e) => {
+          if (e.id !== entry.id) return e;
+          const attempts = e.attempts + 1;
+          const failed = isPermanent(err) || (!offline && attempts >= MAX_ATTEMPTS);
+          return { ...e, attempts, lastError: message, failed };
+        })
+      );
+      if (offline) break;
+    }
+  }
+  const after = await read();
+  const failed = failedEntries(after).length;
+  const remaining = after.length - failed;
+  if (synced > 0 || remaining > 0 || failed > 0) {
+    console.log(`[Outbox] Synced ${synced}, ${remaining} still pending, ${failed} failed`);
+  }
+  return { synced, remaining, failed };
+};
+
+// One flush at a time — a second caller shares the one already running
+export const flushOutbox = (): Promise<FlushResult> => {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
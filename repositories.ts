@@ -0,0 +1,311 @@
+// Typed access to a user's patients and their measurement records.
+//
+// Screens go through PatientRepository / RecordRepository rather than building
+// Firestore paths themselves. The Firestore implementation is the default;
+// createMemoryRepositories() keeps everything in memory so screens and logic
+// can run without Firebase — provide it through RepositoriesContext.
+import { createContext } from 'react';
+import {
+  addDoc,
+  collection,
+  doc,
+  DocumentData,
+  Firestore,
+  FirestoreDataConverter,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  WithFieldValue,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import type { WindowReading } from './esp';
+import { Severity, SEVERITIES, TargetRanges, validateRanges } from './app/assessment';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface Patient {
+  id: string;
+  name: string;
+  age?: number | null;
+  condition?: string | null;
+  // Target ranges and alert thresholds for assess() — null means the defaults
+  ranges?: TargetRanges | null;
+}
+
+export type RecordStatus = 'Normal' | 'Warning' | 'Critical';
+
+// Every record reads back in this shape, whatever schema version it was stored with
+export interface MeasurementRecord {
+  id: string;
+  heartRate: number;
+  spo2: number;
+  // The device's own verdict, kept as it was sent. Screens show severity.
+  status: RecordStatus;
+  // How the app graded the reading when it was saved, and with which
+  // ASSESSMENT_VERSION — null on records saved before either existed
+  severity: Severity | null;
+  assessmentVersion: number | null;
+  // 0–100 from readingQuality() — null on records saved before it existed
+  quality: number | null;
+  totalSamples: number;
+  hrValid: number;
+  spo2Valid: number;
+  // Per-window results, 0 = window rejected. null on firmware without them.
+  readings: WindowReading[] | null;
+  deviceId: string | null;
+  firmwareVersion: string | null;
+  // When the reading was taken, by the phone's clock — a queued reading may
+  // reach Firestore much later
+  measuredAt: Date;
+  // Server time of the write, set by Firestore; null until it's confirmed
+  createdAt: Date | null;
+  schemaVersion: number;
+}
+
+export type NewPatient = Omit<Patient, 'id'>;
+// createdAt and schemaVersion are always filled in by the repository
+export type NewMeasurementRecord = Omit<MeasurementRecord, 'id' | 'createdAt' | 'schemaVersion'>;
+
+export interface PatientRepository {
+  // Real-time list ordered by name — returns the unsubscribe function
+  subscribe(uid: string, onChange: (patients: Patient[]) => void, onError?: (err: Error) => void): () => void;
+  get(uid: string, id: string): Promise<Patient | null>;
+  add(uid: string, patient: NewPatient): Promise<string>;
+  update(uid: string, id: string, changes: Partial<NewPatient>): Promise<void>;
+}
+
+export interface RecordRepository {
+  // Oldest measurement first
+  list(uid: string, patientId: string): Promise<MeasurementRecord[]>;
+  // Writes under the given ID, so saving the same measurement again is harmless
+  save(uid: string, patientId: string, id: string, record: NewMeasurementRecord): Promise<void>;
+}
+
+export type Repositories = { patients: PatientRepository; records: RecordRepository };
+
+// ── Schema ────────────────────────────────────────────────────────────────────
+//
+// 1  Everything written before schemaVersion existed: createdAt was the phone's
+//    clock (sometimes a string), status was whatever the device sent, and the
+//    per-window fields may be missing.
+// 2  measuredAt from the phone, createdAt from the server, a normalised status
+//    and every field present.
+// 3  severity and assessmentVersion from the app's assess(); null on records
+//    migrated from earlier versions, which are re-assessed when shown.
+// 4  quality, the reading's quality score; null on migrated records, whose
+//    score is worked out from their windows when shown.
+//
+// scripts/migrate-records.ts rewrites older versions into the current one.
+
+export const RECORD_SCHEMA_VERSION = 4;
+
+const RECORD_STATUSES: RecordStatus[] = ['Normal', 'Warning', 'Critical'];
+
+// Firestore timestamps, plus the strings and epoch numbers older records used
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (!value || (typeof value !== 'string' && typeof value !== 'number')) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toNumber = (value: unknown, fallback = 0) =>
+  typeof value === 'number' && isFinite(value) ? value : fallback;
+
+// Same cut-offs as handleJSON on the device
+export const statusFromValues = (heartRate: number, spo2: number): RecordStatus => {
+  if (spo2 >= 95 && heartRate >= 60 && heartRate <= 100) return 'Normal';
+  if (spo2 >= 90) return 'Warning';
+  return 'Critical';
+};
+
+// Case-insensitive match on what the device sent, otherwise worked out from the values
+export const normaliseStatus = (status: unknown, heartRate: number, spo2: number): RecordStatus =>
+  RECORD_STATUSES.find((s) => typeof status === 'string' && s.toLowerCase() === status.trim().toLowerCase()) ??
+  statusFromValues(heartRate, spo2);
+
+// Reads a stored record of any schema version into the current shape
+export const upgradeRecord = (id: string, data: DocumentData): MeasurementRecord => {
+  const heartRate = toNumber(data.heartRate);
+  const spo2 = toNumber(data.spo2);
+  const readings: WindowReading[] | null = Array.isArray(data.readings)
+    ? data.readings.map((w: unknown) => {
+        const entry = w && typeof w === 'object' ? (w as { [key: string]: unknown }) : {};
+        return { heartRate: toNumber(entry.heartRate), spo2: toNumber(entry.spo2) };
+      })
+    : null;
+  // Without per-window data, a saved reading stood for at least one valid window
+  const validWindows = (field: 'heartRate' | 'spo2') =>
+    readings ? readings.filter((w) => w[field] > 0).length : data[field] > 0 ? 1 : 0;
+  const createdAt = toDate(data.createdAt);
+
+  return {
+    id,
+    heartRate,
+    spo2,
+    status: normaliseStatus(data.status, heartRate, spo2),
+    severity: SEVERITIES.includes(data.severity) ? data.severity : null,
+    assessmentVersion: typeof data.assessmentVersion === 'number' ? data.assessmentVersion : null,
+    quality: typeof data.quality === 'number' ? data.quality : null,
+    totalSamples: toNumber(data.totalSamples, readings?.length ?? 0),
+    hrValid: toNumber(data.hrValid, validWindows('heartRate')),
+    spo2Valid: toNumber(data.spo2Valid, validWindows('spo2')),
+    readings,
+    deviceId: typeof data.deviceId === 'string' ? data.deviceId : null,
+    firmwareVersion: typeof data.firmwareVersion === 'string' ? data.firmwareVersion : null,
+    measuredAt: toDate(data.measuredAt) ?? createdAt ?? new Date(0),
+    createdAt,
+    schemaVersion: toNumber(data.schemaVersion, 1),
+  };
+};
+
+// ── Firestore ─────────────────────────────────────────────────────────────────
+
+const byMeasuredAt = (a: MeasurementRecord, b: MeasurementRecord) =>
+  a.measuredAt.getTime() - b.measuredAt.getTime();
+
+const patientConverter: FirestoreDataConverter<Patient, NewPatient> = {
+  toFirestore: ({ id, ...patient }: WithFieldValue<Patient>) => patient,
+  fromFirestore: (snap) => {
+    const data = snap.data();
+    return {
+      id: snap.id,
+      name: data.name ?? '',
+      age: data.age ?? null,
+      condition: data.condition ?? null,
+      // Anything the editor couldn't have saved is ignored rather than trusted
+      ranges: data.ranges && validateRanges(data.ranges) === null ? data.ranges : null,
+    };
+  },
+};
+
+// The security rules only accept a createdAt equal to the server's request time
+const recordConverter: FirestoreDataConverter<MeasurementRecord> = {
+  toFirestore: ({ id, createdAt, ...record }: WithFieldValue<MeasurementRecord>) => ({
+    ...record,
+    createdAt: serverTimestamp(),
+    schemaVersion: RECORD_SCHEMA_VERSION,
+  }),
+  fromFirestore: (snap) => upgradeRecord(snap.id, snap.data({ serverTimestamps: 'estimate' })),
+};
+
+export const patientsCollection = (uid: string, firestore: Firestore = db) =>
+  collection(firestore, 'users', uid, 'patients').withConverter(patientConverter);
+
+export const recordsCollection = (uid: string, patientId: string, firestore: Firestore = db) =>
+  collection(firestore, 'users', uid, 'patients', patientId, 'records').withConverter(recordConverter);
+
+export const createFirestoreRepositories = (firestore: Firestore = db): Repositories => ({
+  patients: {
+    subscribe: (uid, onChange, onError) =>
+      onSnapshot(
+        query(patientsCollection(uid, firestore), orderBy('name')),
+        (snap) => onChange(snap.docs.map((d) => d.data())),
+        (err) => {
+          console.error('[Patients] Listener failed:', err);
+          onError?.(err);
+        }
+      ),
+    get: async (uid, id) => {
+      const snap = await getDoc(doc(patientsCollection(uid, firestore), id));
+      return snap.exists() ? snap.data() : null;
+    },
+    add: async (uid, patient) => {
+      const ref = await addDoc(patientsCollection(uid, firestore), patient);
+      return ref.id;
+    },
+    update: (uid, id, changes) => updateDoc(doc(patientsCollection(uid, firestore), id), changes),
+  },
+  records: {
+    // Sorted here rather than in the query — an orderBy on measuredAt would
+    // leave out older records that don't have it
+    list: async (uid, patientId) => {
+      const snap = await getDocs(recordsCollection(uid, patientId, firestore));
+      return snap.docs.map((d) => d.data()).sort(byMeasuredAt);
+    },
+    save: (uid, patientId, id, record) =>
+      setDoc(doc(recordsCollection(uid, patientId, firestore), id), {
+        ...record,
+        id,
+        createdAt: null,
+        schemaVersion: RECORD_SCHEMA_VERSION,
+      }),
+  },
+});
+
+// ── In memory ─────────────────────────────────────────────────────────────────
+
+let memoryIds = 0;
+
+export const createMemoryRepositories = (
+  seed: { [uid: string]: { patients: Patient[]; records?: { [patientId: string]: MeasurementRecord[] } } } = {}
+): Repositories => {
+  const patients = new Map<string, Patient[]>();
+  const records = new Map<string, MeasurementRecord[]>();
+  const listeners = new Map<string, Set<(patients: Patient[]) => void>>();
+
+  Object.entries(seed).forEach(([uid, data]) => {
+    patients.set(uid, data.patients.map((p) => ({ ...p })));
+    Object.entries(data.records ?? {}).forEach(([patientId, list]) =>
+      records.set(`${uid}/${patientId}`, list.map((r) => ({ ...r })))
+    );
+  });
+
+  const sortedPatients = (uid: string) =>
+    [...(patients.get(uid) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    patients: {
+      subscribe: (uid, onChange) => {
+        if (!listeners.has(uid)) listeners.set(uid, new Set());
+        listeners.get(uid)!.add(onChange);
+        onChange(sortedPatients(uid));
+        return () => {
+          listeners.get(uid)?.delete(onChange);
+        };
+      },
+      get: async (uid, id) => {
+        const patient = patients.get(uid)?.find((p) => p.id === id);
+        return patient ? { ...patient } : null;
+      },
+      add: async (uid, patient) => {
+        const id = `patient-${++memoryIds}`;
+        patients.set(uid, [...(patients.get(uid) ?? []), { ...patient, id }]);
+        listeners.get(uid)?.forEach((listener) => listener(sortedPatients(uid)));
+        return id;
+      },
+      update: async (uid, id, changes) => {
+        const list = patients.get(uid) ?? [];
+        if (!list.some((p) => p.id === id)) throw new Error(`No patient ${id}`);
+        patients.set(uid, list.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+        listeners.get(uid)?.forEach((listener) => listener(sortedPatients(uid)));
+      },
+    },
+    records: {
+      list: async (uid, patientId) =>
+        [...(records.get(`${uid}/${patientId}`) ?? [])]
+          .sort(byMeasuredAt)
+          .map((r) => ({ ...r })),
+      save: async (uid, patientId, id, record) => {
+        const key = `${uid}/${patientId}`;
+        const list = (records.get(key) ?? []).filter((r) => r.id !== id);
+        records.set(key, [...list, { ...record, id, createdAt: new Date(), schemaVersion: RECORD_SCHEMA_VERSION }]);
+      },
+    },
+  };
+};
+
+// ── Context ───────────────────────────────────────────────────────────────────
+
+export const firestoreRepositories = createFirestoreRepositories();
+
+// Screens read their repositories from here — wrap them in a provider with
+// createMemoryRepositories() to run without Firebase
+export const RepositoriesContext = createContext<Repositories>(firestoreRepositories);
@@ -0,0 +1,147 @@
+// One-off cleanup for duplicate measurement records.
+//
+// Before records were keyed by a per-measurement ID, an overlapping poll or a
+// save retry could write the same reading more than once. This finds records
+// for the same patient with identical values taken within a minute of each
+// other, keeps the earliest, copies over any fields only a duplicate has, and
+// deletes the rest.
+//
+//   PULSE_EMAIL=you@example.com PULSE_PASSWORD=... npm run dedupe-records
+//   PULSE_EMAIL=you@example.com PULSE_PASSWORD=... npm run dedupe-records -- --apply
+//
+// Without --apply it only reports what it would do.
+
+import { doc, getDocs, writeBatch } from "firebase/firestore";
+import { signInWithEmailAndPassword } from "firebase/auth";
+import { auth, db } from "../firebase";
+import {
+  MeasurementRecord,
+  NewMeasurementRecord,
+  patientsCollection,
+  RECORD_SCHEMA_VERSION,
+  recordsCollection,
+} from "../repositories";
+
+// Duplicates come from the same save path seconds apart — genuine repeat
+// measurements take at least a full measurement cycle
+const DUPLICATE_WINDOW_MS = 60 * 1000;
+
+// Fields that must match exactly for two records to count as the same reading
+const VALUE_FIELDS = ["heartRate", "spo2", "status", "totalSamples"] as const;
+
+export type DuplicateGroup = {
+  keep: MeasurementRecord;
+  remove: MeasurementRecord[];
+  // Fields to add to `keep`, taken from the duplicates that have them
+  merged: Partial<NewMeasurementRecord>;
+};
+
+const sameValues = (a: MeasurementRecord, b: MeasurementRecord) =>
+  VALUE_FIELDS.every((field) => a[field] === b[field]);
+
+export function findDuplicateGroups(records: MeasurementRecord[]): DuplicateGroup[] {
+  const sorted = [...records].sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime());
+  const used = new Set<string>();
+  const groups: DuplicateGroup[] = [];
+
+  for (const keep of sorted) {
+    if (used.has(keep.id)) continue;
+    const remove = sorted.filter(
+      (r) =>
+        r.id !== keep.id &&
+        !used.has(r.id) &&
+        r.measuredAt.getTime() - keep.measuredAt.getTime() >= 0 &&
+        r.measuredAt.getTime() - keep.measuredAt.getTime() <= DUPLICATE_WINDOW_MS &&
+        sameValues(keep, r)
+    );
+    if (!remove.length) continue;
+
+    const kept = new Map(Object.entries(keep));
+    const merged: { [field: string]: unknown } = {};
+    for (const dup of remove) {
+      used.add(dup.id);
+      for (const [field, value] of Object.entries(dup)) {
+        if (field === "id" || field === "measuredAt" || field === "createdAt") continue;
+        if (kept.get(field) == null && merged[field] === undefined && value != null) merged[field] = value;
+      }
+    }
+    used.add(keep.id);
+    groups.push({ keep, remove, merged: merged as Partial<NewMeasurementRecord> });
+  }
+  return groups;
+}
+
+// The rules only accept updates that leave a record in the current schema, so
+// merging into an older record has to wait until migrate-records has run
+export const needsMigration = (group: DuplicateGroup) =>
+  Object.keys(group.merged).length > 0 && group.keep.schemaVersion < RECORD_SCHEMA_VERSION;
+
+async function dedupePatient(uid: string, patientId: string, apply: boolean) {
+  const recordsRef = recordsCollection(uid, patientId);
+  const snap = await getDocs(recordsRef);
+  const groups = findDuplicateGroups(snap.docs.map((d) => d.data()));
+
+  for (const group of groups) {
+    console.log(
+      `  ${group.keep.measuredAt.toISOString()}  ${group.keep.heartRate} bpm / ${group.keep.spo2}%` +
+        `  keep ${group.keep.id}, remove ${group.remove.map((r) => r.id).join(", ")}` +
+        (Object.keys(group.merged).length ? `  (merging ${Object.keys(group.merged).join(", ")})` : "") +
+        (needsMigration(group) ? `  — skipped: schema v${group.keep.schemaVersion}, run migrate-records first` : "")
+    );
+  }
+  if (apply && groups.length) {
+    // Well under Firestore's 500 writes per batch for any realistic history,
+    // but commit per group so one bad group doesn't block the rest
+    for (const group of groups) {
+      if (needsMigration(group)) continue;
+      const batch = writeBatch(db);
+      if (Object.keys(group.merged).length) batch.update(doc(recordsRef, group.keep.id), group.merged);
+      group.remove.forEach((r) => batch.delete(doc(recordsRef, r.id)));
+      await batch.commit();
+    }
+  }
+  const ready = groups.filter((g) => !needsMigration(g));
+  return {
+    removed: ready.reduce((n, g) => n + g.remove.length, 0),
+    skipped: groups.length - ready.length,
+  };
+}
+
+// ── CLI ───────────────────────────────────────────────────────────────────────
+
+if (require.main === module) {
+  const apply = process.argv.includes("--apply");
+  const { PULSE_EMAIL, PULSE_PASSWORD } = process.env;
+  if (!PULSE_EMAIL || !PULSE_PASSWORD) {
+    console.error("Set PULSE_EMAIL and PULSE_PASSWORD to the account whose records should be cleaned up.");
+    process.exit(1);
+  }
+
+  (async () => {
+    const { user } = await signInWithEmailAndPassword(auth, PULSE_EMAIL, PULSE_PASSWORD);
+    const patients = await getDocs(patientsCollection(user.uid));
+    let total = 0;
+    let skipped = 0;
+    for (const patient of patients.docs) {
+      console.log(patient.data().name || patient.id);
+      const result = await dedupePatient(user.uid, patient.id, apply);
+      total += result.removed;
+      skipped += result.skipped;
+    }
+    console.log(
+      apply
+        ? `Removed ${total} duplicate records.`
+        : `${total} duplicate records found. Run again with --apply to remove them.`
+    );
+    if (skipped) {
+      console.log(
+        `${skipped} groups need fields merged into records older than schema v${RECORD_SCHEMA_VERSION}. ` +
+          "Run `npm run migrate-records -- --apply` first, then run this again."
+      );
+    }
+    process.exit(0);
+  })().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
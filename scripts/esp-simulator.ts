@@ -0,0 +1,577 @@
+// Local stand-in for the NodeMCU pulse oximeter.
+//
+// Speaks the same HTTP contract as NodeMCU-Pulse-Oxymeter.ino (POST /start,
+// POST /cancel, GET /data, GET /info, GET/POST /config, POST /pair, plus the live WebSocket on port + 1) so SensorScreen and esp.ts can be driven end to end
+// without the board or a finger on the MAX30105.
+//
+//   npm run simulate -- --scenario hypoxic --port 8080
+//
+// Then point the app at <your machine's LAN IP>:8080. The pairing PIN the
+// device would show on its OLED is printed to the console instead.
+
+import http from "http";
+import { randomBytes } from "crypto";
+import { WebSocketServer } from "ws";
+import { DEFAULT_DEVICE_CONFIG, validateDeviceConfig } from "../esp";
+import type { DeviceConfig, DeviceInfo, ESPData, ESPEndReason, ESPStatus } from "../esp";
+
+// ── Scenarios ─────────────────────────────────────────────────────────────────
+
+// pi is the window's perfusion index in % — 3 when not given
+type WindowReading = { hr: number; spo2: number; pi?: number };
+
+export type Scenario = {
+  description: string;
+  // One entry per sample window — 0 marks a window the algorithm rejected
+  readings: WindowReading[];
+  // Finger never reaches the sensor: device sits on "No finger" until cancelled
+  noFinger?: boolean;
+  // Finger is lifted after this many windows, which resets the measurement
+  abortAfterWindow?: number;
+  // Added to every response
+  latencyMs?: number;
+  // Fraction of requests whose socket is destroyed without a response
+  dropRate?: number;
+};
+
+export const scenarios: { [name: string]: Scenario } = {
+  normal: {
+    description: "Healthy adult, every window valid",
+    readings: [
+      { hr: 72, spo2: 98 }, { hr: 74, spo2: 97 }, { hr: 71, spo2: 98 },
+      { hr: 73, spo2: 98 }, { hr: 72, spo2: 97 },
+    ],
+  },
+  hypoxic: {
+    description: "Low saturation with compensating tachycardia",
+    readings: [
+      { hr: 104, spo2: 87 }, { hr: 108, spo2: 86 }, { hr: 0, spo2: 0 },
+      { hr: 106, spo2: 88 }, { hr: 105, spo2: 87 },
+    ],
+  },
+  "no-finger": {
+    description: "Nothing on the sensor — waits until cancelled",
+    readings: [],
+    noFinger: true,
+  },
+  cancelled: {
+    description: "Finger lifted during the third window",
+    readings: [
+      { hr: 75, spo2: 98 }, { hr: 76, spo2: 97 }, { hr: 74, spo2: 98 },
+      { hr: 75, spo2: 98 }, { hr: 76, spo2: 97 },
+    ],
+    abortAfterWindow: 2,
+  },
+  slow: {
+    description: "Normal reading, every response delayed by 2.5 s",
+    readings: [
+      { hr: 68, spo2: 99 }, { hr: 69, spo2: 98 }, { hr: 67, spo2: 99 },
+      { hr: 68, spo2: 98 }, { hr: 68, spo2: 99 },
+    ],
+    latencyMs: 2500,
+  },
+  dropped: {
+    description: "Normal reading, roughly a third of requests dropped",
+    readings: [
+      { hr: 80, spo2: 96 }, { hr: 82, spo2: 96 }, { hr: 81, spo2: 97 },
+      { hr: 80, spo2: 96 }, { hr: 79, spo2: 97 },
+    ],
+    dropRate: 0.35,
+  },
+  "weak-signal": {
+    description: "Loose finger — faint pulse, windows disagree and two are rejected",
+    readings: [
+      { hr: 88, spo2: 95, pi: 0.3 }, { hr: 0, spo2: 0, pi: 0.1 }, { hr: 71, spo2: 91, pi: 0.4 },
+      { hr: 0, spo2: 0, pi: 0.2 }, { hr: 97, spo2: 96, pi: 0.3 },
+    ],
+  },
+};
+
+// ── Device model ──────────────────────────────────────────────────────────────
+
+// Mirrors the firmware constants
+const TOTAL_SAMPLES = 5;
+const GREETING_MS = 800;
+const COUNTDOWN_MS = 3000;
+const WINDOW_GAP_MS = 300;
+const MAX_PAIRED = 4;
+const PAIRING_WINDOW_MS = 120000;
+const MAX_PIN_ATTEMPTS = 5;
+const PAIRING_LOCKOUT_MS = 30000;
+const MAX_LOCKOUT_SHIFT = 5;
+
+export type SimulatorOptions = {
+  port?: number;
+  scenario?: Scenario;
+  // Time the sensor takes to fill a 70-sample window; scaled by the configured sampleCounts
+  windowMs?: number;
+  // false behaves like older firmware with no live stream
+  stream?: boolean;
+  // Overrides for GET /info; false answers 404 like firmware before /info existed
+  info?: Partial<DeviceInfo> | false;
+  // false behaves like firmware before pairing: no tokens needed anywhere
+  pairing?: boolean;
+  // false behaves like firmware before the perfusion index: no `perfusion` in /data or /info
+  perfusion?: boolean;
+  log?: (message: string) => void;
+};
+
+export type ESPSimulator = {
+  listen: () => Promise<number>;
+  close: () => Promise<void>;
+  setScenario: (scenario: Scenario) => void;
+  snapshot: () => ESPData;
+};
+
+// Same cut-offs as handleJSON / displayResults on the device
+function deviceStatus(running: boolean, avgHR: number, avgSpO2: number): ESPStatus {
+  if (!running && avgHR === 0 && avgSpO2 === 0) return "idle";
+  if (running) return "measuring";
+  if (avgSpO2 >= 95 && avgHR >= 60 && avgHR <= 100) return "Normal";
+  if (avgSpO2 >= 90) return "Warning";
+  return "Critical";
+}
+
+export function createESPSimulator(options: SimulatorOptions = {}): ESPSimulator {
+  const windowMs = options.windowMs ?? 1500;
+  const log = options.log ?? ((message: string) => console.log(`[SIM] ${message}`));
+  let scenario = options.scenario ?? scenarios.normal;
+
+  let running = false;
+  let cancelRequested = false;
+  let patientName = "";
+  let hrReadings: number[] = [];
+  let spo2Readings: number[] = [];
+  let perfusion: number[] = [];
+  let validHRCount = 0;
+  let validSpO2Count = 0;
+  let avgHR = 0;
+  let avgSpO2 = 0;
+  let fingerOn = false;
+  let currentSample = 0;
+  let endReason: ESPEndReason = "none";
+  // Kept until the next /start, like sessionId/sessionName on the device
+  let sessionId = "";
+  let sessionName = "";
+  let config: DeviceConfig = { ...DEFAULT_DEVICE_CONFIG };
+  // Firmware without /info predates pairing and the perfusion index too
+  const pairingEnabled = options.pairing !== false && options.info !== false;
+  const perfusionEnabled = options.perfusion !== false && options.info !== false;
+  const info: DeviceInfo | null = options.info === false ? null : {
+    firmwareVersion: pairingEnabled ? "1.6.0-sim" : "1.3.0-sim",
+    protocolVersion: pairingEnabled ? 3 : 2,
+    features: [
+      ...(options.stream === false ? [] : ["stream"]),
+      "samples", "progress", "config",
+      ...(pairingEnabled ? ["pairing"] : []),
+      "sessions",
+      ...(perfusionEnabled ? ["perfusion"] : []),
+    ],
+    deviceId: "pulseox-sim",
+    ...options.info,
+  };
+  // Same ring of tokens as PairingStore on the device — kept in memory only
+  let tokens: string[] = [];
+  let pairingPin = "";
+  let pairingUntil = 0;
+  // Wrong PINs since the last pairing, across windows — like the firmware
+  let pinFailures = 0;
+  let lockouts = 0;
+  let lockedUntil = 0;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+
+  const clearTimers = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+  };
+
+  const schedule = (ms: number, fn: () => void) => {
+    timers.push(setTimeout(fn, ms));
+  };
+
+  // resetMeasurement() on the device — averages are left at zero
+  const resetMeasurement = (reason: "cancelled" | "fingerLifted") => {
+    clearTimers();
+    running = false;
+    cancelRequested = false;
+    validHRCount = 0;
+    validSpO2Count = 0;
+    currentSample = 0;
+    patientName = "";
+    endReason = reason;
+    log(reason === "fingerLifted" ? "Measurement aborted — finger lifted" : "Measurement cancelled");
+    broadcastStatus();
+  };
+
+  const takeWindow = (idx: number) => {
+    if (cancelRequested) return resetMeasurement("cancelled");
+    if (scenario.abortAfterWindow !== undefined && idx >= scenario.abortAfterWindow) {
+      fingerOn = false;
+      return resetMeasurement("fingerLifted");
+    }
+
+    const reading = scenario.readings[idx] ?? { hr: 0, spo2: 0 };
+    // Same acceptance bands as takeSingleReading()
+    if (reading.hr >= 40 && reading.hr <= 220) {
+      hrReadings[idx] = reading.hr;
+      validHRCount++;
+    }
+    if (reading.spo2 >= 80 && reading.spo2 <= 100) {
+      spo2Readings[idx] = reading.spo2;
+      validSpO2Count++;
+    }
+    perfusion[idx] = reading.pi ?? 3;
+    log(`[${idx + 1}] HR=${reading.hr} SpO2=${reading.spo2} PI=${perfusion[idx]}%`);
+    broadcast({
+      type: "sample",
+      index: idx + 1,
+      total: TOTAL_SAMPLES,
+      heartRate: hrReadings[idx] ?? 0,
+      spo2: spo2Readings[idx] ?? 0,
+    });
+
+    if (idx + 1 < TOTAL_SAMPLES) {
+      schedule(WINDOW_GAP_MS, () => startWindow(idx + 1));
+    } else {
+      // calculateAverages()
+      const sumHR = hrReadings.reduce((s, v) => s + v, 0);
+      const sumSpO2 = spo2Readings.reduce((s, v) => s + v, 0);
+      avgHR = validHRCount > 0 ? sumHR / validHRCount : 0;
+      avgSpO2 = validSpO2Count > 0 ? sumSpO2 / validSpO2Count : 0;
+      running = false;
+      endReason = "complete";
+      log(`Measurement complete — HR=${avgHR.toFixed(1)} SpO2=${avgSpO2.toFixed(1)}`);
+      broadcastStatus();
+    }
+  };
+
+  const startWindow = (idx: number) => {
+    currentSample = idx + 1;
+    broadcastStatus();
+    const samples = config.sampleCounts[idx] ?? 70;
+    schedule(Math.round((windowMs * samples) / 70), () => takeWindow(idx));
+  };
+
+  const beginMeasurement = () => {
+    if (scenario.noFinger) {
+      fingerOn = false;
+      log("Waiting for finger...");
+      return;
+    }
+    fingerOn = true;
+    schedule(GREETING_MS + COUNTDOWN_MS, () => startWindow(0));
+  };
+
+  const snapshot = (): ESPData => ({
+    heartRate: Math.trunc(avgHR),
+    spo2: Math.trunc(avgSpO2),
+    hrValid: validHRCount,
+    spo2Valid: validSpO2Count,
+    totalSamples: TOTAL_SAMPLES,
+    running,
+    status: deviceStatus(running, avgHR, avgSpO2),
+    hrReadings: Array.from({ length: TOTAL_SAMPLES }, (_, i) => hrReadings[i] ?? 0),
+    spo2Readings: Array.from({ length: TOTAL_SAMPLES }, (_, i) => spo2Readings[i] ?? 0),
+    // Firmware before 1.6.0 didn't report it
+    ...(perfusionEnabled && { perfusion: Array.from({ length: TOTAL_SAMPLES }, (_, i) => perfusion[i] ?? 0) }),
+    sampleIndex: currentSample,
+    fingerPresent: fingerOn,
+    endReason,
+    sessionId,
+    patientName: sessionName,
+  });
+
+  // ── Live stream ─────────────────────────────────────────────────────────────
+
+  const wss = options.stream === false ? null : new WebSocketServer({ noServer: true });
+
+  const broadcast = (message: unknown) => {
+    const text = JSON.stringify(message);
+    wss?.clients.forEach((client) => client.send(text));
+  };
+
+  const broadcastStatus = () => broadcast({ type: "status", data: snapshot() });
+
+  wss?.on("connection", (socket) => {
+    log("Stream client connected");
+    socket.send(JSON.stringify({ type: "status", data: snapshot() }));
+  });
+
+  const streamServer = http.createServer((_req, res) => {
+    res.writeHead(426);
+    res.end();
+  });
+  streamServer.on("upgrade", (req, socket, head) => {
+    if (!wss) return socket.destroy();
+    // The device drops unpaired stream clients straight after connecting
+    const token = new URL(req.url ?? "/", "http://localhost").searchParams.get("token");
+    if (pairingEnabled && !(token && tokens.includes(token))) {
+      log("Stream client rejected — not paired");
+      return socket.destroy();
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  // ── HTTP handlers ───────────────────────────────────────────────────────────
+
+  const addCORS = (res: http.ServerResponse) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  };
+
+  const authorized = (req: http.IncomingMessage) => {
+    if (!pairingEnabled) return true;
+    const header = req.headers.authorization ?? "";
+    return header.startsWith("Bearer ") && tokens.includes(header.slice(7));
+  };
+
+  const sendJSON = (res: http.ServerResponse, body: unknown) => {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const sendError = (res: http.ServerResponse, status: number, error: string, extra?: object) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error, ...extra }));
+  };
+
+  const handleStart = (body: string, res: http.ServerResponse) => {
+    if (running) {
+      log(`Start rejected — busy with ${sessionName || "another session"}`);
+      return sendError(res, 409, "busy", { sessionId, patientName: sessionName });
+    }
+    patientName = "";
+    try {
+      const doc = JSON.parse(body);
+      if (typeof doc?.name === "string") patientName = doc.name.slice(0, 31);
+    } catch {}
+
+    clearTimers();
+    running = true;
+    cancelRequested = false;
+    hrReadings = [];
+    spo2Readings = [];
+    perfusion = [];
+    validHRCount = 0;
+    validSpO2Count = 0;
+    avgHR = 0;
+    avgSpO2 = 0;
+    currentSample = 0;
+    endReason = "none";
+    sessionId = randomBytes(4).toString("hex");
+    sessionName = patientName;
+    log(patientName ? `Start requested for: ${patientName}` : "Start requested");
+    beginMeasurement();
+    broadcastStatus();
+    sendJSON(res, { ok: true, sessionId });
+  };
+
+  const handleCancel = (body: string, res: http.ServerResponse) => {
+    let requested: unknown;
+    try {
+      requested = JSON.parse(body)?.sessionId;
+    } catch {}
+    if (running && typeof requested === "string" && requested !== sessionId) {
+      log("Cancel rejected — not the running session");
+      return sendError(res, 409, "busy", { patientName: sessionName });
+    }
+    log("Cancel requested");
+    if (running) resetMeasurement("cancelled");
+    else cancelRequested = true;
+    sendJSON(res, { ok: true });
+  };
+
+  // Same rules as handleSetConfig(): partial update, rejected while measuring
+  const handleSetConfig = (body: string, res: http.ServerResponse) => {
+    if (running) return sendError(res, 409, "busy");
+    let changes: Partial<DeviceConfig>;
+    try {
+      changes = JSON.parse(body);
+    } catch {
+      return sendError(res, 400, "invalid JSON");
+    }
+    const next = { ...config, ...changes };
+    const problems = Object.keys(validateDeviceConfig(next));
+    if (problems.length > 0) return sendError(res, 400, problems[0]);
+    config = {
+      irFingerThreshold: next.irFingerThreshold,
+      sampleCounts: [...next.sampleCounts],
+      displayIntervalMs: next.displayIntervalMs,
+    };
+    log(`Config updated: ${JSON.stringify(config)}`);
+    sendJSON(res, config);
+  };
+
+  const handleResetConfig = (res: http.ServerResponse) => {
+    if (running) return sendError(res, 409, "busy");
+    config = { ...DEFAULT_DEVICE_CONFIG };
+    log("Config reset to defaults");
+    sendJSON(res, config);
+  };
+
+  // ── Pairing ─────────────────────────────────────────────────────────────────
+
+  const pairingOpen = () => pairingPin !== "" && Date.now() < pairingUntil;
+
+  const closePairing = () => {
+    pairingPin = "";
+  };
+
+  const pairingLocked = () => lockouts > 0 && Date.now() < lockedUntil;
+
+  const lockPairing = () => {
+    closePairing();
+    lockedUntil = Date.now() + PAIRING_LOCKOUT_MS * 2 ** Math.min(lockouts, MAX_LOCKOUT_SHIFT);
+    lockouts++;
+    log(`Pairing locked for ${Math.round((lockedUntil - Date.now()) / 1000)} s after too many wrong PINs`);
+  };
+
+  const handlePairRequest = (res: http.ServerResponse) => {
+    if (running) return sendError(res, 409, "busy");
+    if (pairingLocked()) return sendError(res, 429, "locked", { retryInMs: lockedUntil - Date.now() });
+    pairingPin = String(Math.floor(Math.random() * 1000000)).padStart(6, "0");
+    pairingUntil = Date.now() + PAIRING_WINDOW_MS;
+    log(`Pairing open — PIN ${pairingPin}`);
+    sendJSON(res, { expiresInMs: PAIRING_WINDOW_MS });
+  };
+
+  const handlePair = (body: string, res: http.ServerResponse) => {
+    if (!pairingOpen()) {
+      closePairing();
+      return sendError(res, 410, "pairing closed");
+    }
+    let pin: unknown;
+    try {
+      pin = JSON.parse(body)?.pin;
+    } catch {
+      return sendError(res, 400, "invalid JSON");
+    }
+    if (pin !== pairingPin) {
+      if (++pinFailures % MAX_PIN_ATTEMPTS === 0) lockPairing();
+      return sendError(res, 403, "wrong pin");
+    }
+    const token = randomBytes(16).toString("hex");
+    tokens = [...tokens, token].slice(-MAX_PAIRED);
+    closePairing();
+    pinFailures = 0;
+    lockouts = 0;
+    log("Paired a new phone");
+    sendJSON(res, { token });
+  };
+
+  // Everything except /info and /pair needs a token once pairing is on
+  const OPEN_PATHS = ["/info", "/pair", "/pair/request"];
+
+  const route = (req: http.IncomingMessage, res: http.ServerResponse, body: string) => {
+    const path = (req.url ?? "/").split("?")[0];
+    addCORS(res);
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      return res.end();
+    }
+    if (path === "/pair/request" && req.method === "POST") return handlePairRequest(res);
+    if (path === "/pair" && req.method === "POST") return handlePair(body, res);
+    if (!OPEN_PATHS.includes(path) && !authorized(req)) return sendError(res, 401, "unauthorized");
+    if (path === "/start" && req.method === "POST") return handleStart(body, res);
+    if (path === "/cancel" && req.method === "POST") return handleCancel(body, res);
+    if (path === "/data" && req.method === "GET") return sendJSON(res, snapshot());
+    if (path === "/info" && req.method === "GET" && info) return sendJSON(res, info);
+    if (path === "/config" && req.method === "GET") return sendJSON(res, config);
+    if (path === "/config" && req.method === "POST") return handleSetConfig(body, res);
+    if (path === "/config/reset" && req.method === "POST") return handleResetConfig(res);
+
+    res.writeHead(404, { "Content-Type": "text/plain" });
+    res.end("Not found");
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => {
+      if (scenario.dropRate && Math.random() < scenario.dropRate) {
+        log(`Dropped ${req.method} ${req.url}`);
+        req.socket.destroy();
+        return;
+      }
+      const latency = scenario.latencyMs ?? 0;
+      if (latency > 0) setTimeout(() => route(req, res, body), latency);
+      else route(req, res, body);
+    });
+  });
+
+  return {
+    listen: async () => {
+      const port = await new Promise<number>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(options.port ?? 8080, () => {
+          const address = server.address();
+          resolve(typeof address === "object" && address ? address.port : options.port ?? 8080);
+        });
+      });
+      if (wss) {
+        await new Promise<void>((resolve, reject) => {
+          streamServer.once("error", reject);
+          streamServer.listen(port + 1, () => resolve());
+        });
+      }
+      return port;
+    },
+    close: async () => {
+      clearTimers();
+      wss?.clients.forEach((client) => client.terminate());
+      await new Promise<void>((resolve) => {
+        if (!streamServer.listening) return resolve();
+        streamServer.close(() => resolve());
+        streamServer.closeAllConnections();
+      });
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    },
+    setScenario: (next: Scenario) => {
+      scenario = next;
+    },
+    snapshot,
+  };
+}
+
+// ── CLI ───────────────────────────────────────────────────────────────────────
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+if (require.main === module) {
+  const name = argValue("--scenario") ?? "normal";
+  const scenario = scenarios[name];
+  if (!scenario) {
+    console.error(`Unknown scenario "${name}". Available: ${Object.keys(scenarios).join(", ")}`);
+    process.exit(1);
+  }
+
+  const simulator = createESPSimulator({
+    port: Number(argValue("--port") ?? 8080),
+    windowMs: argValue("--window-ms") ? Number(argValue("--window-ms")) : undefined,
+    stream: !process.argv.includes("--no-stream"),
+    pairing: !process.argv.includes("--no-pairing"),
+    perfusion: !process.argv.includes("--no-perfusion"),
+    info: process.argv.includes("--legacy")
+      ? false
+      : argValue("--protocol") ? { protocolVersion: Number(argValue("--protocol")) } : undefined,
+    scenario,
+  });
+
+  simulator.listen().then((port) => {
+    console.log(`Pulse oximeter simulator on http://localhost:${port}`);
+    if (!process.argv.includes("--no-stream")) console.log(`Live stream on ws://localhost:${port + 1}`);
+    console.log(`Scenario: ${name} — ${scenario.description}`);
+  });
+
+  process.on("SIGINT", () => {
+    simulator.close().then(() => process.exit(0));
+  });
+}
@@ -0,0 +1,88 @@
+// Rewrites measurement records stored with an older schema into the current
+// one (see the Schema section of repositories.ts). The app already reads old
+// records through upgradeRecord(); this makes the stored documents match, so
+// queries, security rules and exports all see one shape.
+//
+//   PULSE_EMAIL=you@example.com PULSE_PASSWORD=... npm run migrate-records
+//   PULSE_EMAIL=you@example.com PULSE_PASSWORD=... npm run migrate-records -- --apply
+//
+// Without --apply it only reports what it would change.
+
+import { collection, doc, DocumentData, getDocs, serverTimestamp, Timestamp, writeBatch } from "firebase/firestore";
+import { signInWithEmailAndPassword } from "firebase/auth";
+import { auth, db } from "../firebase";
+import { patientsCollection, RECORD_SCHEMA_VERSION, upgradeRecord } from "../repositories";
+
+const CURRENT_FIELDS = [
+  "heartRate", "spo2", "status", "severity", "assessmentVersion", "quality", "totalSamples", "hrValid", "spo2Valid",
+  "readings", "deviceId", "firmwareVersion", "measuredAt", "createdAt", "schemaVersion",
+];
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+// The stored document for a record in the current schema, or null if it's already current
+export function migrateRecordData(id: string, data: DocumentData) {
+  if ((data.schemaVersion ?? 1) >= RECORD_SCHEMA_VERSION) return null;
+  const { id: _id, createdAt, schemaVersion, ...fields } = upgradeRecord(id, data);
+  return {
+    ...fields,
+    // An existing server or client Timestamp stays — the security rules only let
+    // createdAt change to the request time. Strings and missing values get one.
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt : serverTimestamp(),
+    schemaVersion: RECORD_SCHEMA_VERSION,
+  };
+}
+
+async function migratePatient(uid: string, patientId: string, apply: boolean) {
+  // Read without the converter — it would hide exactly what needs migrating
+  const recordsRef = collection(db, "users", uid, "patients", patientId, "records");
+  const snap = await getDocs(recordsRef);
+  const changes = snap.docs
+    .map((d) => ({ id: d.id, data: d.data(), migrated: migrateRecordData(d.id, d.data()) }))
+    .filter((c) => c.migrated !== null);
+
+  for (const { id, data, migrated } of changes) {
+    const dropped = Object.keys(data).filter((field) => !CURRENT_FIELDS.includes(field));
+    const status = data.status !== migrated!.status ? `  status "${data.status ?? ""}" → ${migrated!.status}` : "";
+    console.log(`  ${id}${status}${dropped.length ? `  dropping ${dropped.join(", ")}` : ""}`);
+  }
+  if (apply) {
+    for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      changes.slice(i, i + BATCH_SIZE).forEach(({ id, migrated }) => batch.set(doc(recordsRef, id), migrated!));
+      await batch.commit();
+    }
+  }
+  return changes.length;
+}
+
+// ── CLI ───────────────────────────────────────────────────────────────────────
+
+if (require.main === module) {
+  const apply = process.argv.includes("--apply");
+  const { PULSE_EMAIL, PULSE_PASSWORD } = process.env;
+  if (!PULSE_EMAIL || !PULSE_PASSWORD) {
+    console.error("Set PULSE_EMAIL and PULSE_PASSWORD to the account whose records should be migrated.");
+    process.exit(1);
+  }
+
+  (async () => {
+    const { user } = await signInWithEmailAndPassword(auth, PULSE_EMAIL, PULSE_PASSWORD);
+    const patients = await getDocs(patientsCollection(user.uid));
+    let total = 0;
+    for (const patient of patients.docs) {
+      console.log(patient.data().name || patient.id);
+      total += await migratePatient(user.uid, patient.id, apply);
+    }
+    console.log(
+      apply
+        ? `Migrated ${total} records to schema version ${RECORD_SCHEMA_VERSION}.`
+        : `${total} records need migrating. Run again with --apply to rewrite them.`
+    );
+    process.exit(0);
+  })().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
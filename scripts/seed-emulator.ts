@@ -0,0 +1,178 @@
+// Fills the local Firebase emulators with demo accounts, patients and months
+// of readings, so every screen has something realistic to show.
+//
+//   npx firebase-tools emulators:start
+//   npm run seed -- --days 120
+//
+// Only ever talks to the emulators — it refuses to run against a real project.
+// The data is generated from a fixed seed and written under fixed IDs, so
+// running it again resets the demo data instead of duplicating it.
+
+import { doc, writeBatch } from "firebase/firestore";
+import { createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut } from "firebase/auth";
+import { auth, db, usingEmulators } from "../firebase";
+import { assess, ASSESSMENT_VERSION, presetRanges, readingQuality } from "../app/assessment";
+import {
+  NewMeasurementRecord,
+  NewPatient,
+  patientsCollection,
+  RECORD_SCHEMA_VERSION,
+  recordsCollection,
+  statusFromValues,
+} from "../repositories";
+
+// ── Demo data ─────────────────────────────────────────────────────────────────
+
+type DemoPatient = NewPatient & {
+  id: string;
+  // Typical resting values, and how far a single reading strays from them
+  heartRate: number;
+  spo2: number;
+  spread: number;
+  // Chance on any day of a reading well below the patient's usual SpO₂
+  dipChance: number;
+};
+
+const DEMO_USERS: { email: string; password: string; patients: DemoPatient[] }[] = [
+  {
+    email: "demo@pulse.test",
+    password: "pulse-demo",
+    patients: [
+      { id: "demo-margaret", name: "Margaret", age: 78, condition: "COPD", ranges: presetRanges("copd"), heartRate: 84, spo2: 93, spread: 1.5, dipChance: 0.08 },
+      { id: "demo-thomas", name: "Thomas", age: 81, condition: "Heart failure", heartRate: 92, spo2: 95, spread: 2, dipChance: 0.04 },
+      { id: "demo-priya", name: "Priya", age: 34, condition: null, heartRate: 68, spo2: 98, spread: 1, dipChance: 0 },
+    ],
+  },
+  {
+    email: "caregiver@pulse.test",
+    password: "pulse-demo",
+    patients: [
+      { id: "demo-arthur", name: "Arthur", age: 66, condition: "Post-op", ranges: presetRanges("postop"), heartRate: 76, spo2: 96, spread: 1.5, dipChance: 0.03 },
+      { id: "demo-lena", name: "Lena", age: 9, condition: "Asthma", heartRate: 96, spo2: 97, spread: 2, dipChance: 0.02 },
+    ],
+  },
+];
+
+// Small seeded PRNG (mulberry32) — the same demo data on every run
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const hashId = (id: string) => [...id].reduce((h, c) => Math.imul(h, 31) + c.charCodeAt(0), 7);
+
+export function demoReadings(patient: DemoPatient, days: number, now = new Date()) {
+  const rand = random(hashId(patient.id));
+  const jitter = (spread: number) => (rand() * 2 - 1) * spread;
+  const records: { id: string; record: NewMeasurementRecord }[] = [];
+
+  for (let day = days - 1; day >= 0; day--) {
+    const perDay = rand() < 0.3 ? 2 : rand() < 0.85 ? 1 : 0;
+    for (let n = 0; n < perDay; n++) {
+      const measuredAt = new Date(now);
+      measuredAt.setDate(now.getDate() - day);
+      measuredAt.setHours(n === 0 ? 8 + Math.floor(rand() * 3) : 18 + Math.floor(rand() * 3), Math.floor(rand() * 60), 0, 0);
+
+      const dip = rand() < patient.dipChance ? 3 + rand() * 4 : 0;
+      const readings = Array.from({ length: 4 }, () => {
+        const rejected = rand() < 0.1;
+        return {
+          heartRate: rejected ? 0 : Math.round(patient.heartRate + jitter(patient.spread * 4) + dip),
+          spo2: rejected ? 0 : Math.round(Math.min(100, patient.spo2 + jitter(patient.spread) - dip)),
+        };
+      });
+      const valid = readings.filter((w) => w.heartRate > 0);
+      if (!valid.length) continue;
+      const heartRate = Math.round(valid.reduce((s, w) => s + w.heartRate, 0) / valid.length);
+      const spo2 = Math.round(valid.reduce((s, w) => s + w.spo2, 0) / valid.length);
+
+      records.push({
+        id: `${patient.id}-${days - day}-${n}`,
+        record: {
+          heartRate,
+          spo2,
+          status: statusFromValues(heartRate, spo2),
+          severity: assess(heartRate, spo2, patient).severity,
+          assessmentVersion: ASSESSMENT_VERSION,
+          quality: readingQuality({
+            hrValid: valid.length,
+            spo2Valid: valid.length,
+            totalSamples: readings.length,
+            readings,
+          }).score,
+          totalSamples: readings.length,
+          hrValid: valid.length,
+          spo2Valid: valid.length,
+          readings,
+          deviceId: "demo-oximeter",
+          firmwareVersion: "1.5.0",
+          measuredAt,
+        },
+      });
+    }
+  }
+  return records;
+}
+
+// ── Seeding ───────────────────────────────────────────────────────────────────
+
+async function signInOrCreate(email: string, password: string) {
+  try {
+    return (await createUserWithEmailAndPassword(auth, email, password)).user;
+  } catch (err: any) {
+    if (err?.code !== "auth/email-already-in-use") throw err;
+    return (await signInWithEmailAndPassword(auth, email, password)).user;
+  }
+}
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 400;
+
+async function seedUser(demo: (typeof DEMO_USERS)[number], days: number) {
+  const user = await signInOrCreate(demo.email, demo.password);
+  for (const demoPatient of demo.patients) {
+    const { id, name, age, condition, ranges = null } = demoPatient;
+    const records = demoReadings(demoPatient, days);
+    for (let i = 0; i === 0 || i < records.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      if (i === 0) batch.set(doc(patientsCollection(user.uid), id), { id, name, age, condition, ranges });
+      records.slice(i, i + BATCH_SIZE).forEach(({ id: recordId, record }) =>
+        batch.set(doc(recordsCollection(user.uid, id), recordId), { ...record, id: recordId, createdAt: null, schemaVersion: RECORD_SCHEMA_VERSION })
+      );
+      await batch.commit();
+    }
+    console.log(`  ${name}: ${records.length} readings`);
+  }
+  await signOut(auth);
+}
+
+// ── CLI ───────────────────────────────────────────────────────────────────────
+
+function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+if (require.main === module) {
+  if (!usingEmulators) {
+    console.error("Refusing to seed: Firebase isn't pointed at the emulators. Unset the EXPO_PUBLIC_FIREBASE_* variables or set EXPO_PUBLIC_USE_FIREBASE_EMULATORS=true.");
+    process.exit(1);
+  }
+  const days = Number(argValue("--days") ?? 90);
+
+  (async () => {
+    for (const demo of DEMO_USERS) {
+      console.log(`${demo.email} (password: ${demo.password})`);
+      await seedUser(demo, days);
+    }
+    console.log(`Seeded ${DEMO_USERS.length} demo users with ${days} days of readings.`);
+    process.exit(0);
+  })().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}